@@ -2,9 +2,12 @@
 // Deno + Hono + OpenAI Responses API (web_search) + Google Places
 // Hard server-side verification + timeouts, retries, and limited concurrency
 
-import { Hono } from "npm:hono";
-import { cors } from "npm:hono/cors";
-import { serveStatic } from "npm:hono/serve-static";
+import { Hono } from "@hono/hono";
+import type { Context } from "@hono/hono";
+import type { ContentfulStatusCode } from "@hono/hono/utils/http-status";
+import { cors } from "@hono/hono/cors";
+import { serveStatic } from "@hono/hono/deno";
+import { streamSSE } from "@hono/hono/streaming";
 
 const app = new Hono();
 
@@ -15,6 +18,31 @@ const PLACES_KEY   = Deno.env.get("GOOGLE_PLACES_API_KEY") ?? "";
 const DEBUG        = (Deno.env.get("DEBUG") || "false").toLowerCase() === "true";
 const TEMP_STR     = Deno.env.get("OPENAI_TEMPERATURE");
 const OPENAI_TEMP  = (TEMP_STR!=null && TEMP_STR.trim()!=="") ? Number(TEMP_STR) : 0;
+const FEEDS_DIR    = Deno.env.get("FEEDS_DIR") ?? "";   // local PriceFull/PromoFull/Stores XML(.gz) files
+const RETAILERS_FILE = Deno.env.get("RETAILERS_FILE") || "./retailers.json";   // chain registry, hot-reloaded
+const KV_PATH      = Deno.env.get("KV_PATH") || undefined; // Deno KV file (default: Deno's per-project store)
+const PROVIDER_MODE = (Deno.env.get("PROVIDER_MODE") || "live").toLowerCase() === "mock" ? "mock" : "live";
+const MOCK_FIXTURES_DIR = Deno.env.get("MOCK_FIXTURES_DIR") || "./fixtures/mock";
+const OPENAI_BASE_URL = (Deno.env.get("OPENAI_BASE_URL") || "https://api.openai.com/v1").replace(/\/+$/, "");
+const GOOGLE_MAPS_BASE_URL = (Deno.env.get("GOOGLE_MAPS_BASE_URL") || "https://maps.googleapis.com/maps/api").replace(/\/+$/, "");
+const RETAILER_BASE_URL = (Deno.env.get("RETAILER_BASE_URL") || "").replace(/\/+$/, "");
+const LLM_PROVIDERS = (Deno.env.get("LLM_PROVIDERS") || "openai").split(",").map(s => s.trim().toLowerCase()).filter(Boolean); // fallback chain
+const LOCAL_LLM_BASE_URL = (Deno.env.get("LOCAL_LLM_BASE_URL") || "http://localhost:11434/v1").replace(/\/+$/, ""); // OpenAI-compatible
+const LOCAL_LLM_MODEL = Deno.env.get("LOCAL_LLM_MODEL") || "llama3.1";
+const LOCAL_LLM_API_KEY = Deno.env.get("LOCAL_LLM_API_KEY") ?? "";
+const LLM_PRICES_JSON = Deno.env.get("LLM_PRICES") ?? "";  // {"<model>": {"input": usd_per_1m, "output": usd_per_1m}}
+const ROUTING_BASE_URL = (Deno.env.get("ROUTING_BASE_URL") || "").replace(/\/+$/, ""); // OSRM-style routing; unset = offline estimate
+const CORS_ORIGINS = (Deno.env.get("CORS_ORIGINS") || "*").split(",").map(s => s.trim()).filter(Boolean);
+const ADMIN_TOKEN = Deno.env.get("ADMIN_TOKEN") ?? "";          // enables /api/admin/*
+const API_KEYS_REQUIRED = (Deno.env.get("API_KEYS_REQUIRED") || "false").toLowerCase() === "true";
+const TRUST_PROXY = (Deno.env.get("TRUST_PROXY") || "false").toLowerCase() === "true"; // client IP from X-Forwarded-For
+const LOG_FORMAT = (Deno.env.get("LOG_FORMAT") || "json").toLowerCase() === "text" ? "text" : "json";
+const METRICS_TOKEN = Deno.env.get("METRICS_TOKEN") ?? "";   // optional bearer token for /metrics
+const PUBLIC_BASE_URL = (Deno.env.get("PUBLIC_BASE_URL") || "").replace(/\/+$/, "");  // share links; unset = request origin
+const ALERTS_SCHEDULER = (Deno.env.get("ALERTS_SCHEDULER") || "timer").toLowerCase();   // timer | cron | off
+const ALERTS_INTERVAL_MIN = Math.max(1, Number(Deno.env.get("ALERTS_INTERVAL_MIN") || "60")); // per-rule re-check period
+const ALERTS_LIST_INTERVAL_MIN = Math.max(ALERTS_INTERVAL_MIN, Number(Deno.env.get("ALERTS_LIST_INTERVAL_MIN") || "360")); // list rules run a full search
+const ALERT_WEBHOOK_ALLOW = (Deno.env.get("ALERT_WEBHOOK_ALLOW") || "").split(",").map(s => s.trim().toLowerCase()).filter(Boolean); // hosts exempt from the private-address check
 
 // ===== Networking defaults =====
 const UA = "CartCompareAI/1.0 (Deno)";
@@ -26,8 +54,18 @@ const VERIFY_CONCURRENCY = 5;       // verify items in parallel (pool)
 // ===== Utils =====
 const SAFE_DEBUG_MAX = 2500;
 function rid(){ return crypto.randomUUID(); }
-function info(id:string, msg:string, extra?:unknown){ console.log(`[${id}] ${msg}`, extra ?? ""); }
-function err (id:string, msg:string, extra?:unknown){ console.error(`[${id}] ERROR: ${msg}`, extra ?? ""); }
+// One JSON object per line (LOG_FORMAT=text keeps the "[id] message" form for local runs)
+function log(level:"info" | "error", id:string, msg:string, extra?:unknown){
+  const out = level === "error" ? console.error : console.log;
+  if (LOG_FORMAT === "text"){ out(`[${id}] ${level === "error" ? "ERROR: " : ""}${msg}`, extra ?? ""); return; }
+  const rec: { ts:string; level:string; request_id:string; msg:string; data?:unknown } = { ts: new Date().toISOString(), level, request_id: id, msg };
+  if (extra !== undefined && extra !== "") rec.data = extra instanceof Error ? { name: extra.name, message: extra.message } : extra;
+  let line: string;
+  try{ line = JSON.stringify(rec); } catch{ line = JSON.stringify({ ...rec, data: String(extra) }); }
+  out(line);
+}
+function info(id:string, msg:string, extra?:unknown){ log("info", id, msg, extra); }
+function err (id:string, msg:string, extra?:unknown){ log("error", id, msg, extra); }
 class HttpError extends Error { status:number; payload?:unknown; constructor(s:number,m:string,p?:unknown){ super(m); this.status=s; this.payload=p; } }
 
 function extractJson(text:string){
@@ -38,6 +76,9 @@ function extractJson(text:string){
   if (a>=0 && b>a) { try { return JSON.parse(text.slice(a, b+1)); } catch {} }
   return null;
 }
+function escapeHtml(s:string){
+  return s.replace(/[&<>"']/g, c => ({ "&":"&amp;", "<":"&lt;", ">":"&gt;", "\"":"&quot;", "'":"&#39;" }[c]!));
+}
 function decodeHtmlEntities(s: string): string {
   if (!s) return "";
   s = s.replace(/&#x([0-9a-fA-F]+);/g, (_:any,h:string)=> String.fromCharCode(parseInt(h,16)));
@@ -112,55 +153,676 @@ async function mapPool<T,R>(items:T[], limit:number, worker:(t:T)=>Promise<R>):
   return outP;
 }
 
-// ===== Constants =====
-const APPROVED_DOMAINS = new Set([
-  "shufersal.co.il","rami-levy.co.il","victoryonline.co.il",
-  "yohananof.co.il","tivtaam.co.il","osherad.co.il"
-]);
-const APPROVED_CHAINS = [
-  { chain: "שופרסל",   keyword: "שופרסל סניף" },
-  { chain: "רמי לוי",  keyword: "רמי לוי סניף" },
-  { chain: "ויקטורי",  keyword: "ויקטורי סניף" },
-  { chain: "טיב טעם",  keyword: "טיב טעם סניף" },
-  { chain: "יוחננוף",  keyword: "יוחננוף סניף" },
-  { chain: "אושר עד",  keyword: "אושר עד סניף" },
-];
+// ===== Observability (spans + Prometheus metrics) =====
+// span() times a stage, feeds cartcompare_stage_duration_seconds and, while a trace is open for
+// the request id (runSearch opens one), records it for the response: per-stage totals in `timings`
+// on every search, the individual spans in debug.timings. Metrics live in memory per instance and
+// are rendered at GET /metrics in the Prometheus text format.
+type Labels = Record<string, string | number>;
+const METRIC_REGISTRY: { name:string; help:string; type:"counter" | "histogram"; render:()=> string[] }[] = [];
+
+function labelText(labels:Labels){
+  return Object.keys(labels).sort().map(k => `${k}="${String(labels[k]).replace(/[\\"\n]/g, "_")}"`).join(",");
+}
+
+function counter(name:string, help:string){
+  const values = new Map<string, number>();
+  METRIC_REGISTRY.push({ name, help, type: "counter", render: ()=> [...values].map(([k, v])=> `${name}${k ? `{${k}}` : ""} ${v}`) });
+  return {
+    inc(labels:Labels = {}, n = 1){ const k = labelText(labels); values.set(k, (values.get(k) ?? 0) + n); }
+  };
+}
+
+function histogram(name:string, help:string, buckets:number[]){
+  const series = new Map<string, { counts:number[]; sum:number; count:number }>();
+  METRIC_REGISTRY.push({ name, help, type: "histogram", render: ()=> [...series].flatMap(([k, s])=> {
+    const le = (b:string)=> `{${k ? k + "," : ""}le="${b}"}`;
+    let cum = 0;
+    return [
+      ...buckets.map((b, i)=> { cum += s.counts[i]; return `${name}_bucket${le(String(b))} ${cum}`; }),
+      `${name}_bucket${le("+Inf")} ${s.count}`,
+      `${name}_sum${k ? `{${k}}` : ""} ${Math.round(s.sum * 1e6) / 1e6}`,
+      `${name}_count${k ? `{${k}}` : ""} ${s.count}`
+    ];
+  }) });
+  return {
+    observe(value:number, labels:Labels = {}){
+      const k = labelText(labels);
+      const s = series.get(k) ?? { counts: buckets.map(()=> 0), sum: 0, count: 0 };
+      const i = buckets.findIndex(b => value <= b);
+      if (i >= 0) s.counts[i]++;
+      s.sum += value; s.count++;
+      series.set(k, s);
+    }
+  };
+}
+
+const METRICS = {
+  http: counter("cartcompare_http_requests_total", "HTTP requests by method, route and status"),
+  searches: counter("cartcompare_searches_total", "Searches by source (feed/web) and outcome"),
+  searchSeconds: histogram("cartcompare_search_duration_seconds", "End-to-end search latency", [0.5, 1, 2, 5, 10, 20, 30, 60, 120]),
+  stageSeconds: histogram("cartcompare_stage_duration_seconds", "Latency per stage (geocode, places, travel, llm, verify_item, repair_round, ranking)", [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30, 60]),
+  llmCalls: counter("cartcompare_llm_calls_total", "LLM calls by provider, model and outcome"),
+  llmErrors: counter("cartcompare_llm_errors_total", "Failed LLM calls by provider and status"),
+  verifyItems: counter("cartcompare_verify_items_total", "Final item verifications by domain and result (ok, price_mismatch, no_price, http_error, domain_not_allowed)"),
+  coverage: histogram("cartcompare_store_coverage_ratio", "Verified share of each store's basket, by chain", [0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]),
+  rateLimited: counter("cartcompare_rate_limited_total", "Requests rejected with 429, by reason")
+};
+
+function renderMetrics(){
+  const lines: string[] = [];
+  for (const m of METRIC_REGISTRY){
+    lines.push(`# HELP ${m.name} ${m.help}`, `# TYPE ${m.name} ${m.type}`, ...m.render());
+  }
+  // Cache counters are kept by the cache layer itself
+  lines.push("# HELP cartcompare_cache_events_total Cache lookups by source and event", "# TYPE cartcompare_cache_events_total counter");
+  for (const [source, st] of Object.entries(CACHE_STATS.sources)){
+    for (const [event, n] of Object.entries(st)) lines.push(`cartcompare_cache_events_total{${labelText({ source, event })}} ${n}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+type Span = { name:string; start_ms:number; ms:number; ok:boolean; attrs?:Record<string, unknown> };
+const TRACES = new Map<string, { t0:number; spans:Span[] }>();
+
+function beginTrace(id:string){ TRACES.set(id, { t0: performance.now(), spans: [] }); }
+
+// A request's stage totals; the spans themselves are only returned with debug
+type TraceSummary = { total_ms:number; by_stage:Record<string, { count:number; ms:number }>; spans:Span[] };
+
+function endTrace(id:string): TraceSummary | null {
+  const t = TRACES.get(id);
+  TRACES.delete(id);
+  if (!t) return null;
+  const by_stage: Record<string, { count:number; ms:number }> = {};
+  for (const s of t.spans){
+    const b = (by_stage[s.name] ??= { count: 0, ms: 0 });
+    b.count++; b.ms += s.ms;
+  }
+  return { total_ms: Math.round(performance.now() - t.t0), by_stage, spans: t.spans };
+}
+
+async function span<T>(id:string | undefined, name:string, fn:()=> T | Promise<T>, attrs?:Record<string, unknown>): Promise<T> {
+  const t0 = performance.now();
+  let ok = true;
+  try{ return await fn(); }
+  catch(e){ ok = false; throw e; }
+  finally{
+    const ms = performance.now() - t0;
+    METRICS.stageSeconds.observe(ms / 1000, { stage: name });
+    const t = id ? TRACES.get(id) : undefined;
+    if (t) t.spans.push({ name, start_ms: Math.round(t0 - t.t0), ms: Math.round(ms), ok, ...(attrs ? { attrs } : {}) });
+  }
+}
 
+// ===== Constants =====
 const COVERAGE_THRESHOLD = 0.6;
+const SPLIT_COST_PER_KM = Number(Deno.env.get("SPLIT_COST_PER_KM") || "1");          // ₪ per km driven
+const SPLIT_EXTRA_STORE_COST = Number(Deno.env.get("SPLIT_EXTRA_STORE_COST") || "5"); // ₪ per additional store
+const EVIDENCE_RETENTION_DAYS = Number(Deno.env.get("EVIDENCE_RETENTION_DAYS") ?? "30"); // page snapshots kept as price proof; 0 = off
+const REPAIR_MAX_ROUNDS = Math.max(0, Number(Deno.env.get("REPAIR_MAX_ROUNDS") ?? "2"));  // follow-up model turns for rejected lines
+const REPAIR_BUDGET_MS = Number(Deno.env.get("REPAIR_BUDGET_MS") || "60000");              // no new repair round after this
+const REPAIR_NAME_MATCH_MIN = 0.5;                                                         // below this a line is sent for repair
+const RATE_IP_PER_MIN = Number(Deno.env.get("RATE_IP_PER_MIN") || "30");       // anonymous clients, per IP
+const RATE_IP_BURST = Number(Deno.env.get("RATE_IP_BURST") || "10");
+const RATE_KEY_PER_MIN = Number(Deno.env.get("RATE_KEY_PER_MIN") || "120");    // defaults for new API keys
+const RATE_KEY_BURST = Number(Deno.env.get("RATE_KEY_BURST") || "30");
+const ANON_LLM_BUDGET = Number(Deno.env.get("ANON_LLM_BUDGET") || "20");       // model calls per IP per UTC day (0 = unlimited)
+const KEY_LLM_BUDGET = Number(Deno.env.get("KEY_LLM_BUDGET") || "500");        // default per key per UTC day
+const DAILY_LLM_BUDGET = Number(Deno.env.get("DAILY_LLM_BUDGET") || "0");      // all model calls per UTC day (0 = unlimited)
+const ALERT_LLM_BUDGET = Number(Deno.env.get("ALERT_LLM_BUDGET") || "24");      // list-alert model calls per user per UTC day (0 = unlimited)
+const TRAVEL_ROAD_FACTOR = Number(Deno.env.get("TRAVEL_ROAD_FACTOR") || "1.3");      // road km per straight-line km
+const TRAVEL_COST_PER_MIN = Number(Deno.env.get("TRAVEL_COST_PER_MIN") || "0.5");    // ₪ per minute travelled
+const PRICE_SCOPE_PENALTY = Number(Deno.env.get("PRICE_SCOPE_PENALTY") || "0.03");     // ranking surcharge share for prices not taken at the branch
+const REPORT_RETENTION_DAYS = Number(Deno.env.get("REPORT_RETENTION_DAYS") ?? "90");   // shared search reports (/r/:id); 0 = not saved
+const JOB_CHUNK_ITEMS = Math.max(1, Number(Deno.env.get("JOB_CHUNK_ITEMS") || "8"));      // list items per queued search task
+const JOB_MAX_ITEMS = 150;
+const JOB_MAX_ATTEMPTS = Math.max(1, Number(Deno.env.get("JOB_MAX_ATTEMPTS") || "3"));
+const JOB_RETRY_MS = Number(Deno.env.get("JOB_RETRY_MS") || "30000");                     // first retry delay, doubles per attempt
+const JOB_LEASE_MS = 5 * 60_000;                                                           // a running task older than this is taken over
+const JOB_RETENTION_DAYS = 7;
+const JOBS_WORKER = (Deno.env.get("JOBS_WORKER") || "on").toLowerCase();                  // on | off (jobs then run only through runJobs)
+
+// ===== Storage =====
+const kv = await Deno.openKv(KV_PATH);
+
+// ===== Retailer registry =====
+// Chains, their domains, Places keywords and feed sources come from RETAILERS_FILE (a JSON array),
+// validated on load and re-read when the file changes; an invalid edit keeps the previous registry.
+// Enable/disable from the admin API is kept in KV and wins over the file's `enabled`:
+//   ["retailer_overrides", retailer_id] -> { enabled, updated_at }
+type Retailer = {
+  id: string;               // slug, e.g. "rami-levy"
+  name_he: string;          // chain name shown in results (store_name)
+  name_en: string;
+  chain_id: string;         // GS1 chain code used by the price-transparency feeds
+  domains: string[];        // product-page hosts accepted as price sources
+  places_keyword: string;   // Google Places nearby keyword
+  max_branches: number;     // quickest branches kept per search
+  feed_urls: string[];      // where the chain publishes PriceFull/PromoFull/Stores files
+  delivery: DeliveryRules | null;   // online ordering rules; null = in-store only
+  enabled: boolean;
+};
+type RetailerOverride = { enabled: boolean; updated_at: string };
+
+let RETAILERS: Retailer[] = [];
+const RETAILERS_STATUS = { file: RETAILERS_FILE, loaded_at: null as string|null, last_error: null as unknown, overrides: 0 };
+
+function enabledRetailers(){ return RETAILERS.filter(r => r.enabled); }
+function retailerByChainId(chainId:string){ return RETAILERS.find(r => r.chain_id === chainId) || null; }
+function retailerByName(name:string){ return RETAILERS.find(r => r.name_he === name) || null; }
+function retailerByDomain(host:string){ const h = host.toLowerCase().replace(/^www\./, ""); return RETAILERS.find(r => r.domains.includes(h)) || null; }
+function allowedDomains(){ return enabledRetailers().flatMap(r => r.domains); }
+
+function validateRetailers(raw:unknown): Retailer[] {
+  if (!Array.isArray(raw) || !raw.length) throw new HttpError(400, "Invalid retailer registry", { problems: ["expected a non-empty JSON array"] });
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const unique = (at:string, kind:string, v:string)=> { if (seen.has(`${kind}:${v}`)) problems.push(`${at}: duplicate ${kind} "${v}"`); seen.add(`${kind}:${v}`); };
+  const out = raw.map((r:Record<string, unknown> | null, i:number): Retailer => {
+    const at = `[${i}]${typeof r?.id === "string" ? ` ${r.id}` : ""}`;
+    const str = (k:string)=> {
+      const v = r?.[k];
+      if (typeof v === "string" && v.trim()) return v.trim();
+      problems.push(`${at}: ${k} is required`); return "";
+    };
+    const id = str("id"), chain_id = str("chain_id");
+    if (id && !/^[a-z0-9-]+$/.test(id)) problems.push(`${at}: id must be a lowercase slug`);
+    if (chain_id && !/^\d{13}$/.test(chain_id)) problems.push(`${at}: chain_id must be a 13-digit GS1 code`);
+    const domains: string[] = Array.isArray(r?.domains) ? r.domains.map((d:unknown)=> String(d).trim().toLowerCase().replace(/^www\./, "")) : [];
+    if (!domains.length) problems.push(`${at}: domains must list at least one host`);
+    for (const d of domains) if (!/^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(d)) problems.push(`${at}: bad domain "${d}"`);
+    const feed_urls: string[] = Array.isArray(r?.feed_urls) ? r.feed_urls.map(String) : [];
+    for (const u of feed_urls) if (!/^https?:\/\/\S+$/.test(u)) problems.push(`${at}: bad feed url "${u}"`);
+    const mb = r?.max_branches ?? 3;
+    const max_branches = typeof mb === "number" && Number.isInteger(mb) && mb >= 1 && mb <= 10 ? mb : 0;
+    if (!max_branches) problems.push(`${at}: max_branches must be an integer 1..10`);
+    if (r?.enabled != null && typeof r.enabled !== "boolean") problems.push(`${at}: enabled must be a boolean`);
+    const delivery = r?.delivery == null ? null : deliveryRules(at, r.delivery as Record<string, unknown>, problems);
+    const name_he = str("name_he");
+    unique(at, "id", id); unique(at, "chain_id", chain_id); unique(at, "name_he", name_he);
+    for (const d of domains) unique(at, "domain", d);
+    return { id, name_he, name_en: str("name_en"), chain_id, domains, places_keyword: str("places_keyword"), max_branches, feed_urls, delivery, enabled: r?.enabled !== false };
+  });
+  if (problems.length) throw new HttpError(400, "Invalid retailer registry", { problems });
+  return out;
+}
+
+function deliveryRules(at:string, d:Record<string, unknown>, problems:string[]): DeliveryRules {
+  const money = (k:string, v:unknown = d[k])=> {
+    if (typeof v === "number" && Number.isFinite(v) && v >= 0) return v;
+    problems.push(`${at}: delivery.${k} must be a non-negative number`); return 0;
+  };
+  const tiers = Array.isArray(d.tiers) ? d.tiers.map((t:Record<string, unknown> | null, i:number)=> ({ from: money(`tiers[${i}].from`, t?.from), fee: money(`tiers[${i}].fee`, t?.fee) })) : [];
+  const sl = (d.slots ?? {}) as Record<string, unknown>;
+  const hour = (k:string, def:number, min:number, max:number)=> {
+    const v = sl[k] ?? def;
+    if (typeof v === "number" && Number.isInteger(v) && v >= min && v <= max) return v;
+    problems.push(`${at}: delivery.slots.${k} must be an integer ${min}..${max}`); return def;
+  };
+  const slots = { days_ahead: hour("days_ahead", 2, 0, 14), first_hour: hour("first_hour", 8, 0, 23), last_hour: hour("last_hour", 22, 1, 24), window_h: hour("window_h", 2, 1, 12), lead_h: hour("lead_h", 3, 0, 72) };
+  if (slots.first_hour >= slots.last_hour) problems.push(`${at}: delivery.slots.first_hour must be before last_hour`);
+  return { min_basket: money("min_basket"), delivery_fee: money("delivery_fee"), tiers, pickup_fee: money("pickup_fee", d.pickup_fee ?? 0), slots };
+}
+
+async function loadRetailers(id:string){
+  try{
+    const list = validateRetailers(JSON.parse(await Deno.readTextFile(RETAILERS_FILE)));
+    let overrides = 0;
+    for await (const e of kv.list<RetailerOverride>({ prefix: ["retailer_overrides"] })){
+      const r = list.find(x => x.id === e.key[1]);
+      if (r){ r.enabled = e.value.enabled; overrides++; }
+    }
+    RETAILERS = list;
+    Object.assign(RETAILERS_STATUS, { loaded_at: new Date().toISOString(), last_error: null, overrides });
+    info(id, "retailer registry loaded", { chains: list.length, enabled: enabledRetailers().length, overrides });
+  }catch(e){
+    const message = e instanceof Error ? e.message : String(e);
+    const problems = e instanceof HttpError ? (e.payload as { problems?: string[] } | undefined)?.problems : undefined;
+    RETAILERS_STATUS.last_error = problems ?? message;
+    err(id, "retailer registry rejected", { message, problems });
+    if (!RETAILERS.length) throw e;   // nothing to fall back to at startup
+  }
+}
+
+// Watch the directory, not the file: editors often save by rename, which ends a file watch
+async function watchRetailers(){
+  try{
+    const path = await Deno.realPath(RETAILERS_FILE);
+    const dir = path.slice(0, path.lastIndexOf("/")) || "/";
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    for await (const ev of Deno.watchFs(dir, { recursive: false })){
+      if (!ev.paths.includes(path) || ev.kind === "access") continue;
+      clearTimeout(timer);
+      timer = setTimeout(()=> loadRetailers("registry").catch(()=>{}), 300);
+    }
+  }catch(e){
+    err("registry", "retailer registry watch unavailable", String(e));
+  }
+}
+
+// Chain context shared by the prompt builders (search, repair, preview)
+function retailerPrompt(){
+  const chains = enabledRetailers().map(r => ({ chain: r.name_he, name_en: r.name_en, domains: r.domains }));
+  return `ALLOWED_DOMAINS: ${JSON.stringify(allowedDomains())}
+
+CHAINS (JSON, store_name = chain):
+${JSON.stringify(chains)}`;
+}
+
+// ===== Cache (per-source TTL + in-flight coalescing) =====
+// Backends: "memory" (default) or "kv" (persistent, gzip-compressed, skips values over KV's size limit).
+// Concurrent calls for the same key share one in-flight promise.
+type CacheSource = "geocode" | "places" | "page";
+type CacheBackend = {
+  name: string;
+  get(key:string): Promise<unknown | undefined>;
+  set(key:string, value:unknown, ttlMs:number): Promise<void>;
+};
+
+const CACHE_TTL_MS: Record<CacheSource, number> = {
+  geocode: Number(Deno.env.get("CACHE_TTL_GEOCODE_MS") || String(7 * 24 * 3600_000)),
+  places:  Number(Deno.env.get("CACHE_TTL_PLACES_MS")  || String(6 * 3600_000)),
+  page:    Number(Deno.env.get("CACHE_TTL_PAGE_MS")    || String(10 * 60_000)),
+};
+const CACHE_MEMORY_MAX = 2000;
+const KV_VALUE_MAX = 60_000;   // Deno KV caps values at 64 KiB
+
+function memoryCache(): CacheBackend {
+  const m = new Map<string, { value:unknown; expires:number }>();
+  return {
+    name: "memory",
+    get(key){
+      const e = m.get(key);
+      if (!e) return Promise.resolve(undefined);
+      if (e.expires < Date.now()){ m.delete(key); return Promise.resolve(undefined); }
+      m.delete(key); m.set(key, e);   // keep recently used entries at the end
+      return Promise.resolve(e.value);
+    },
+    set(key, value, ttlMs){
+      m.set(key, { value, expires: Date.now() + ttlMs });
+      while (m.size > CACHE_MEMORY_MAX) m.delete(m.keys().next().value!);
+      return Promise.resolve();
+    }
+  };
+}
+
+async function gzipBytes(s:string){
+  const stream = new Blob([s]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+async function gunzipText(b:Uint8Array){
+  const stream = new Blob([b as BlobPart]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return await new Response(stream).text();
+}
+
+function kvCache(): CacheBackend {
+  return {
+    name: "kv",
+    async get(key){
+      const e = await kv.get<Uint8Array>(["cache", key]);
+      return e.value ? JSON.parse(await gunzipText(e.value)) : undefined;
+    },
+    async set(key, value, ttlMs){
+      const packed = await gzipBytes(JSON.stringify(value));
+      if (packed.byteLength > KV_VALUE_MAX){ CACHE_STATS.oversize++; return; }
+      await kv.set(["cache", key], packed, { expireIn: ttlMs });
+    }
+  };
+}
+
+const CACHE_BACKEND: CacheBackend = (Deno.env.get("CACHE_BACKEND") || "memory").toLowerCase() === "kv" ? kvCache() : memoryCache();
+const CACHE_INFLIGHT = new Map<string, Promise<unknown>>();
+const CACHE_STATS = {
+  backend: CACHE_BACKEND.name,
+  oversize: 0,
+  sources: Object.fromEntries((["geocode","places","page"] as CacheSource[]).map(s => [s, { hits:0, misses:0, coalesced:0, errors:0 }])) as Record<CacheSource, { hits:number; misses:number; coalesced:number; errors:number }>
+};
+
+// `keep` decides whether a fresh value is worth caching (e.g. only HTTP 200 pages)
+async function cached<T>(source:CacheSource, key:string, fn:()=>Promise<T>, keep:(v:T)=>boolean = ()=>true): Promise<T> {
+  const k = `${source}:${key}`;
+  const st = CACHE_STATS.sources[source];
+  const hit = await CACHE_BACKEND.get(k).catch(()=> undefined);
+  if (hit !== undefined){ st.hits++; return hit as T; }
+
+  const pending = CACHE_INFLIGHT.get(k);
+  if (pending){ st.coalesced++; return pending as Promise<T>; }
+
+  st.misses++;
+  const p = (async ()=>{
+    try{
+      const v = await fn();
+      if (keep(v)) await CACHE_BACKEND.set(k, v, CACHE_TTL_MS[source]).catch(()=>{ st.errors++; });
+      return v;
+    } finally { CACHE_INFLIGHT.delete(k); }
+  })();
+  CACHE_INFLIGHT.set(k, p);
+  return p;
+}
+
+// ===== Providers (OpenAI, Google Maps, retailer pages) =====
+// PROVIDER_MODE=live talks to the configured base URLs (point them at local mock servers if needed);
+// PROVIDER_MODE=mock replays recorded responses from MOCK_FIXTURES_DIR, no keys or network needed.
+//   geocode.json  { "<address>" | "*": <Geocoding API response> }
+//   places.json   { "<keyword substring>" | "*": <Nearby Search response> }
+//   openai.json   <Responses API response>
+//   openai_repair.json  <Responses API response> served for REPAIR ROUND prompts (optional)
+//   openai_chat.json  <Chat Completions response> (OpenAI-compatible local endpoint)
+//   pages.json    { "<product_url>": "<file under pages/>" }
+type Providers = {
+  mode: "live" | "mock";
+  openai: {
+    responses(body:unknown): Promise<Response>;
+    chat(baseUrl:string, key:string, body:unknown): Promise<Response>;
+  };
+  maps: {
+    geocode(address:string): Promise<Response>;
+    nearby(q:{ location:string; radius:string; keyword:string; type:string }): Promise<Response>;
+  };
+  pages: { get(url:string): Promise<Response> };
+};
+
+function liveProviders(): Providers {
+  return {
+    mode: "live",
+    openai: {
+      responses: (body)=> fetchWithTimeout(`${OPENAI_BASE_URL}/responses`, {
+        method: "POST",
+        headers: {
+          "authorization": `Bearer ${OPENAI_KEY}`,
+          "content-type": "application/json",
+          "user-agent": UA
+        },
+        body: JSON.stringify(body)
+      }, OPENAI_TIMEOUT_MS),
+      chat: (baseUrl, key, body)=> fetchWithTimeout(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          ...(key ? { "authorization": `Bearer ${key}` } : {}),
+          "content-type": "application/json",
+          "user-agent": UA
+        },
+        body: JSON.stringify(body)
+      }, OPENAI_TIMEOUT_MS)
+    },
+    maps: {
+      geocode(address){
+        const u = new URL(`${GOOGLE_MAPS_BASE_URL}/geocode/json`);
+        u.searchParams.set("address", address);
+        u.searchParams.set("key", PLACES_KEY);
+        return fetchWithTimeout(u.toString(), { headers:{"user-agent":UA} }, PLACES_TIMEOUT_MS);
+      },
+      nearby(q){
+        const u = new URL(`${GOOGLE_MAPS_BASE_URL}/place/nearbysearch/json`);
+        u.searchParams.set("key", PLACES_KEY);
+        for (const [k, v] of Object.entries(q)) u.searchParams.set(k, v);
+        return fetchWithTimeout(u.toString(), { headers:{"user-agent":UA} }, PLACES_TIMEOUT_MS);
+      }
+    },
+    pages: {
+      get(url){
+        // RETAILER_BASE_URL: send https://www.shufersal.co.il/p/1 to <base>/www.shufersal.co.il/p/1
+        let target = url;
+        if (RETAILER_BASE_URL){ const u = new URL(url); target = `${RETAILER_BASE_URL}/${u.host}${u.pathname}${u.search}`; }
+        return fetchWithTimeout(target, { redirect:"follow", headers:{"user-agent":UA} }, FETCH_TIMEOUT_MS);
+      }
+    }
+  };
+}
+
+function mockProviders(dir:string): Providers {
+  // Each fixture file is one JSON object (keyed by address, keyword or URL for the maps and pages)
+  const files = new Map<string, Promise<Record<string, unknown> | null>>();
+  const load = (name:string)=> {
+    if (!files.has(name)) files.set(name, Deno.readTextFile(`${dir}/${name}`).then(JSON.parse).catch(()=> null));
+    return files.get(name)!;
+  };
+  const json = (v:unknown, status = 200)=> new Response(JSON.stringify(v), { status, headers: { "content-type":"application/json", "x-request-id":"mock" } });
+  return {
+    mode: "mock",
+    openai: {
+      async responses(body){
+        const repair = JSON.stringify(body).includes("REPAIR ROUND") ? await load("openai_repair.json") : null;
+        const r = repair ?? await load("openai.json");
+        return r ? json(r) : json({ error: { message: "no openai.json fixture" } }, 500);
+      },
+      async chat(){
+        const r = await load("openai_chat.json");
+        return r ? json(r) : json({ error: { message: "no openai_chat.json fixture" } }, 500);
+      }
+    },
+    maps: {
+      async geocode(address){
+        const m = await load("geocode.json") ?? {};
+        return json(m[address] ?? m[normalizeSpaces(address.toLowerCase())] ?? m["*"] ?? { status:"ZERO_RESULTS", results:[] });
+      },
+      async nearby(q){
+        const m = await load("places.json") ?? {};
+        const key = Object.keys(m).find(k => k !== "*" && q.keyword.includes(k));
+        return json(m[key ?? "*"] ?? { status:"ZERO_RESULTS", results:[] });
+      }
+    },
+    pages: {
+      async get(url){
+        const m = await load("pages.json") ?? {};
+        const file = m[url] ?? m[url.replace(/^https?:\/\/www\./, "https://")];
+        if (!file) return new Response("not found", { status: 404 });
+        const html = await Deno.readTextFile(`${dir}/pages/${file}`).catch(()=> null);
+        return html == null ? new Response("not found", { status: 404 }) : new Response(html, { status: 200, headers: { "content-type":"text/html; charset=utf-8" } });
+      }
+    }
+  };
+}
+
+const PROVIDERS: Providers = PROVIDER_MODE === "mock" ? mockProviders(MOCK_FIXTURES_DIR) : liveProviders();
+
+// ===== Travel cost =====
+// Minutes/km from the search center to each branch. Offline: straight-line distance ×
+// TRAVEL_ROAD_FACTOR at an average speed per mode. ROUTING_BASE_URL plugs in an
+// OSRM-compatible /table service; any local stub answering the same shape can replace it.
+type TravelMode = "driving" | "walking" | "transit";
+type TravelLeg = { minutes: number; km: number; source: string };
+interface TravelProvider {
+  name: string;
+  table(mode:TravelMode, origin:{lat:number;lng:number}, dests:{lat:number;lng:number}[]): Promise<TravelLeg[]>;
+}
+const TRAVEL_SPEED_KMH: Record<TravelMode, number> = { driving: 30, walking: 4.8, transit: 16 };
+const TRAVEL_OVERHEAD_MIN: Record<TravelMode, number> = { driving: 4, walking: 0, transit: 8 }; // parking / waiting
+
+function travelMode(x:unknown): TravelMode {
+  return x === "walking" || x === "transit" ? x : "driving";
+}
+
+function estimateTravel(): TravelProvider {
+  return {
+    name: "estimate",
+    table(mode, origin, dests){
+      return Promise.resolve(dests.map(d => {
+        const km = haversineKm(origin, d) * TRAVEL_ROAD_FACTOR;
+        return { km: Math.round(km*10)/10, minutes: Math.round(km / TRAVEL_SPEED_KMH[mode] * 60 + TRAVEL_OVERHEAD_MIN[mode]), source: "estimate" };
+      }));
+    }
+  };
+}
+
+// GET {base}/table/v1/{mode}/{lng,lat;...}?sources=0&annotations=duration,distance
+function osrmTravel(base:string): TravelProvider {
+  const fallback = estimateTravel();
+  return {
+    name: "osrm",
+    async table(mode, origin, dests){
+      const est = await fallback.table(mode, origin, dests);
+      if (!dests.length) return est;
+      const coords = [origin, ...dests].map(p => `${p.lng},${p.lat}`).join(";");
+      try{
+        const r = await fetchWithTimeout(`${base}/table/v1/${mode}/${coords}?sources=0&annotations=duration,distance`, {}, PLACES_TIMEOUT_MS);
+        const j = await r.json().catch(()=> null);
+        const dur = j?.durations?.[0], dist = j?.distances?.[0];
+        if (!r.ok || j?.code !== "Ok" || !Array.isArray(dur)) throw new Error(`routing ${r.status} ${j?.code ?? ""}`.trim());
+        return dests.map((_, i)=> typeof dur[i+1] === "number"
+          ? { minutes: Math.round(dur[i+1] / 60), km: typeof dist?.[i+1] === "number" ? Math.round(dist[i+1] / 100) / 10 : est[i].km, source: "osrm" }
+          : est[i]);
+      } catch(e){
+        err("travel", "routing backend failed, using estimate", String(e));
+        return est;
+      }
+    }
+  };
+}
+
+const TRAVEL: TravelProvider = ROUTING_BASE_URL ? osrmTravel(ROUTING_BASE_URL) : estimateTravel();
+
+// Round trip valued at cost_per_minute; combined_total drives ranking when rank_by = "price_travel".
+// scope_penalty (PRICE_SCOPE_PENALTY × the basket's non-branch-priced share) is ranking-only, never shown as a price.
+// With store.totals (see applyFulfillment) the checkout total counts, and delivered orders need no trip.
+// Baskets missing list items (coverage < 1) rank after all complete ones, best-covered first: their totals are not comparable.
+function rankStores(stores:StoreResult[], opt:RankOptions){
+  const price = (s:StoreResult)=> !s.totals ? s.normalized_total ?? s.total_price
+    : s.totals.total == null ? null : round2((s.normalized_total ?? s.total_price ?? 0) + (s.totals.delivery ?? 0) + (s.totals.below_minimum ?? 0));
+  for (const s of stores){
+    const p = price(s);
+    s.travel_cost = s.fulfillment?.mode === "delivery" ? 0
+      : typeof s.travel_minutes === "number" ? round2(2 * s.travel_minutes * opt.cost_per_minute) : null;
+    s.combined_total = typeof p === "number" ? round2(p + (s.travel_cost ?? 0)) : null;
+    s.scope_penalty = typeof p === "number" ? round2(p * PRICE_SCOPE_PENALTY * (1 - (s.price_scope?.reliability ?? 1))) : 0;
+  }
+  const key = (s:StoreResult)=> ((opt.rank_by === "price_travel" ? s.combined_total : price(s)) ?? 999999) + (s.scope_penalty ?? 0);
+  const covered = (s:StoreResult)=> typeof s.coverage === "number" ? Math.min(1, s.coverage) : 1;
+  stores.sort((a,b)=> covered(b) - covered(a) || key(a) - key(b));
+  stores.forEach((r,i)=> r.rank = i+1);
+  return stores;
+}
+
+type RankOptions = { rank_by: "price" | "price_travel"; cost_per_minute: number };
+
+function rankOptions(body:Record<string, unknown> | null | undefined): RankOptions {
+  const cpm = Number(body?.cost_per_minute);
+  return {
+    rank_by: body?.rank_by === "price_travel" ? "price_travel" : "price",
+    cost_per_minute: Number.isFinite(cpm) && cpm >= 0 && body?.cost_per_minute !== "" && body?.cost_per_minute != null ? cpm : TRAVEL_COST_PER_MIN
+  };
+}
+
+// ===== Fulfillment (in-store / pickup / delivery) =====
+// Online orders (pickup, delivery) pay the chain's fee for the basket size and must reach its
+// minimum basket; the rules come from the retailer registry (`delivery`, null = no online orders).
+// store.totals is the checkout breakdown and its total drives ranking. Slots are a stub for now.
+type FulfillmentMode = "in_store" | "pickup" | "delivery";
+type DeliveryRules = {
+  min_basket: number;                         // ₪ of items needed to place an online order
+  delivery_fee: number;                       // ₪, below the first tier
+  tiers: { from: number; fee: number }[];     // fee once the basket reaches `from` (fee 0 = free delivery)
+  pickup_fee: number;
+  slots: { days_ahead: number; first_hour: number; last_hour: number; window_h: number; lead_h: number };
+};
+
+type Fulfillment = {
+  mode: FulfillmentMode;
+  available: boolean;
+  min_basket: number | null;
+  free_delivery_from: number | null;
+  fee_rule: string | null;
+  slots: { start: string; end: string; available: boolean }[];
+  slots_source: "stub" | null;
+};
+type CheckoutTotals = { items: number | null; delivery: number | null; below_minimum: number | null; total: number | null };
+
+function fulfillmentMode(x:unknown): FulfillmentMode {
+  return x === "pickup" || x === "delivery" ? x : "in_store";
+}
+
+// Fee and top-up to the minimum basket for `items` ₪; null when the chain does not offer the mode
+function fulfillmentCharge(rules:DeliveryRules | null | undefined, mode:FulfillmentMode, items:number){
+  if (mode === "in_store") return { fee: 0, topup: 0, rule: null as string|null };
+  if (!rules) return null;
+  const topup = round2(Math.max(0, rules.min_basket - items));
+  if (mode === "pickup") return { fee: rules.pickup_fee, topup, rule: "pickup" };
+  const tier = [...rules.tiers].sort((a, b)=> b.from - a.from).find(t => items + topup >= t.from);
+  return { fee: tier ? tier.fee : rules.delivery_fee, topup, rule: tier ? `from_${tier.from}` : "base" };
+}
+
+// Stub until chains expose slot APIs: fixed windows within opening hours, lead_h from now (Israel time)
+function deliverySlots(rules:DeliveryRules, now = Date.now(), max = 4){
+  const { days_ahead, first_hour, last_hour, window_h, lead_h } = rules.slots;
+  const tz = 3 * 3600_000;   // IDT; close enough for a stub
+  const earliest = now + lead_h * 3600_000;
+  const out: { start:string; end:string; available:boolean }[] = [];
+  const day0 = Math.floor((now + tz) / 86400_000) * 86400_000 - tz;
+  for (let d = 0; d <= days_ahead && out.length < max; d++){
+    for (let h = first_hour; h + window_h <= last_hour && out.length < max; h += window_h){
+      const start = day0 + d * 86400_000 + h * 3600_000;
+      if (start < earliest) continue;
+      out.push({ start: new Date(start).toISOString(), end: new Date(start + window_h * 3600_000).toISOString(), available: true });
+    }
+  }
+  return out;
+}
+
+// Sets store.totals ({ items, delivery, below_minimum, total }) and store.fulfillment
+function applyFulfillment(store:StoreResult, mode:FulfillmentMode, now = Date.now()): CheckoutTotals {
+  const rules = retailerByName(String(store.store_name || ""))?.delivery ?? null;
+  const items = typeof store.total_price === "number" ? store.total_price : null;
+  const charge = items == null ? null : fulfillmentCharge(rules, mode, items);
+  const online = mode !== "in_store";
+  store.fulfillment = {
+    mode,
+    available: !!charge,
+    min_basket: online ? rules?.min_basket ?? null : null,
+    free_delivery_from: mode === "delivery" ? rules?.tiers.find(t => t.fee === 0)?.from ?? null : null,
+    fee_rule: charge?.rule ?? null,
+    slots: online && rules ? deliverySlots(rules, now) : [],
+    slots_source: online && rules ? "stub" : null
+  };
+  store.totals = {
+    items,
+    delivery: charge?.fee ?? null,           // pickup fee in pickup mode; 0 in store
+    below_minimum: charge?.topup ?? null,    // ₪ still needed to reach the minimum basket
+    total: charge && items != null ? round2(items + charge.fee + charge.topup) : null
+  };
+  return store.totals;
+}
 
 // ===== Google Geocode + Places =====
+// The parts of the Geocoding and Nearby Search responses we read
+type LatLng = { lat: number; lng: number };
+type GeocodeResponse = { status: string; results?: { formatted_address?: string; geometry?: { location?: LatLng } }[] };
+type PlacesResponse = {
+  status: string;
+  results?: { place_id?: string; name?: string; vicinity?: string; formatted_address?: string; geometry?: { location?: Partial<LatLng> }; rating?: number }[];
+};
+type Place = { place_id: string; name: string; address: string; lat: number; lng: number; maps_url: string; rating: number | null };
+
 async function geocodeAddress(id:string, address:string){
-  if (!PLACES_KEY) throw new HttpError(500, "Missing GOOGLE_PLACES_API_KEY");
-  const u = new URL("https://maps.googleapis.com/maps/api/geocode/json");
-  u.searchParams.set("address", address);
-  u.searchParams.set("key", PLACES_KEY);
-  const j = await retry(async ()=>{
-    const r = await fetchWithTimeout(u.toString(), { headers:{"user-agent":UA} }, PLACES_TIMEOUT_MS);
-    return r.json();
-  });
+  if (!PLACES_KEY && PROVIDERS.mode === "live") throw new HttpError(500, "Missing GOOGLE_PLACES_API_KEY");
+  const j = await cached("geocode", address.toLowerCase(), ()=> retry(async ()=>{
+    const r = await PROVIDERS.maps.geocode(address);
+    return await r.json() as GeocodeResponse;
+  }), (v)=> v?.status === "OK");
   if (j.status !== "OK" || !j.results?.[0]?.geometry?.location){
     throw new HttpError(400, `Geocode failed for address`);
   }
   const { lat, lng } = j.results[0].geometry.location;
-  return { lat, lng, formatted: j.results[0].formatted_address as string };
-}
-
-async function nearbyForChain(id:string, center:{lat:number;lng:number}, radiusMeters:number, chainKeyword:string){
-  const u = new URL("https://maps.googleapis.com/maps/api/place/nearbysearch/json");
-  u.searchParams.set("key", PLACES_KEY);
-  u.searchParams.set("location", `${center.lat},${center.lng}`);
-  u.searchParams.set("radius", String(Math.min(radiusMeters, 50000)));
-  u.searchParams.set("keyword", chainKeyword);
-  u.searchParams.set("type", "supermarket");
-  const j = await retry(async ()=>{
-    const r = await fetchWithTimeout(u.toString(), { headers:{"user-agent":UA} }, PLACES_TIMEOUT_MS);
-    return r.json();
-  });
+  return { lat, lng, formatted: j.results[0].formatted_address ?? address };
+}
+
+async function nearbyForChain(id:string, center:{lat:number;lng:number}, radiusMeters:number, chainKeyword:string): Promise<Place[]> {
+  const q = {
+    location: `${center.lat},${center.lng}`,
+    radius: String(Math.min(radiusMeters, 50000)),
+    keyword: chainKeyword,
+    type: "supermarket"
+  };
+  const key = `${center.lat.toFixed(4)},${center.lng.toFixed(4)}|${q.radius}|${chainKeyword}`;
+  const j = await cached("places", key, ()=> retry(async ()=>{
+    const r = await PROVIDERS.maps.nearby(q);
+    return await r.json() as PlacesResponse;
+  }), (v)=> v?.status === "OK" || v?.status === "ZERO_RESULTS");
   if (j.status !== "OK" && j.status !== "ZERO_RESULTS"){
     info(id, "Places nearby status", j.status);
   }
   const items = Array.isArray(j.results) ? j.results : [];
-  return items.map((p:any)=>({
+  return items.map(p =>({
     place_id: String(p.place_id||""),
     name: String(p.name||""),
     address: String(p.vicinity || p.formatted_address || ""),
@@ -180,22 +842,30 @@ type Branch = {
   lng: number;
   branch_url: string;
   distance_km: number;
+  travel_mode: TravelMode;
+  travel_minutes: number;
+  travel_km: number;
+  travel_source: string;
+  store_code?: string | null;   // chain StoreId from the feeds' Stores/price files, when matched
 };
 
-async function listApprovedBranches(id:string, address:string, radius_km:number){
-  const geo = await geocodeAddress(id, address);
+// `chains` (retailer ids) narrows the search to those chains, e.g. one job task per chain
+async function listApprovedBranches(id:string, address:string, radius_km:number, emit?:SearchEmit, travel_mode:TravelMode = "driving", chains:string[] | null = null){
+  const geo = await span(id, "geocode", ()=> geocodeAddress(id, address));
   const center = { lat: geo.lat, lng: geo.lng };
+  await emit?.("geocoded", { formatted_address: geo.formatted, center });
   const radiusMeters = Math.max(500, Math.round(radius_km*1000));
-  const out: Branch[] = [];
+  const candidates: Branch[] = [];
 
-  for (const c of APPROVED_CHAINS){
-    const raw = await nearbyForChain(id, center, radiusMeters, c.keyword + " " + address);
+  const retailers = enabledRetailers().filter(r => !chains || chains.includes(r.id));
+  for (const c of retailers){
+    const raw = await span(id, "places", ()=> nearbyForChain(id, center, radiusMeters, c.places_keyword + " " + address), { chain: c.name_he });
     const mapped = raw.map(p=>{
       const d = p.lat && p.lng ? haversineKm(center, {lat:p.lat,lng:p.lng}) : 9999;
-      const name = p.name || c.chain;
+      const name = p.name || c.name_he;
       return <Branch>{
         branch_id: p.place_id,
-        chain: c.chain,
+        chain: c.name_he,
         branch_name: name,
         address: p.address || "",
         lat: p.lat, lng: p.lng,
@@ -203,319 +873,4325 @@ async function listApprovedBranches(id:string, address:string, radius_km:number)
         distance_km: Math.round(d*10)/10
       };
     })
-    .filter(b => b.branch_id && b.distance_km <= radius_km + 0.8)
-    .sort((a,b)=> a.distance_km - b.distance_km)
-    .slice(0, 3);
-    out.push(...mapped);
+    .filter(b => b.branch_id && b.distance_km <= radius_km + 0.8);
+    candidates.push(...mapped);
   }
 
-  out.sort((a,b)=> a.distance_km - b.distance_km);
-  return { center, formatted_address: geo.formatted, branches: out.slice(0, 12) };
+  // Keep the quickest branches to reach, not the closest as the crow flies
+  const legs = await span(id, "travel", ()=> TRAVEL.table(travel_mode, center, candidates), { provider: TRAVEL.name, mode: travel_mode });
+  candidates.forEach((b, i)=> Object.assign(b, { travel_mode, travel_minutes: legs[i].minutes, travel_km: legs[i].km, travel_source: legs[i].source }));
+  const byTravel = (a:Branch, b:Branch)=> a.travel_minutes - b.travel_minutes || a.distance_km - b.distance_km;
+  const out: Branch[] = [];
+  for (const c of retailers) out.push(...candidates.filter(b => b.chain === c.name_he).sort(byTravel).slice(0, c.max_branches));
+
+  out.sort(byTravel);
+  const branches = out.slice(0, 12);
+  for (const b of branches) b.store_code = matchFeedStore(b)?.store_id ?? null;
+  await emit?.("branches", { count: branches.length, branches });
+  return { center, formatted_address: geo.formatted, branches };
 }
 
-// ===== System Prompt =====
-const PROMPT_SYSTEM = `
-You are a price-comparison agent for Israeli groceries.
+// ===== Shopping-list parser =====
+// "2 קוקה קולה 1.5 ל׳" -> { quantity:2, name:"קוקה קולה", size:1.5, unit:"l" }
+// "שישיית מי עדן 1.5 ל׳" -> { quantity:1, pack_qty:6, name:"מי עדן", size:1.5, unit:"l" }
+type ListUnit = "l" | "ml" | "kg" | "g" | "unit";
+type ListItem = {
+  raw: string;
+  name: string;
+  quantity: number;
+  pack_qty: number | null;
+  size: number | null;
+  unit: ListUnit | null;
+  size_text: string | null;
+  exact?: boolean;             // "!" at the end of the line: no substitutes
+};
 
-HARD POLICY (DO NOT VIOLATE):
-- Do NOT fabricate prices or branches. Use ONLY information found now on the public web.
-- Branches MUST be selected ONLY from APPROVED_BRANCHES JSON (branch_id required). If none match—return empty results.
-- Prices MUST come ONLY from approved retailer domains in ALLOWED_DOMAINS. Each line MUST include product_url AND observed_price_text containing "₪", or JSON-LD with priceCurrency "ILS".
-- If an exact pack/size is unavailable, return a close substitute and set substitution=true; compute ppu (price per unit) and explain in notes. If still unknown, drop the line.
-- Never output free text; finish by calling submit_results once.
+const LIST_UNITS: [RegExp, ListUnit][] = [
+  [/^(?:ליטר|ליטרים|ל'|ל"|ל|l|lt|ltr|liter|liters|litre|litres)$/i, "l"],
+  [/^(?:מ"ל|מל|מיליליטר|ml)$/i, "ml"],
+  [/^(?:ק"ג|קג|קילו|קילוגרם|kg|kilo|kilos)$/i, "kg"],
+  [/^(?:גרם|גרמים|גר'|גר|ג'|ג|g|gr|gram|grams)$/i, "g"],
+  [/^(?:יח'|יח|יחידות|יחידה|unit|units|pcs|pc)$/i, "unit"],
+];
+const PACK_WORDS: [RegExp, number][] = [
+  [/(?:^|\s)(?:זוג|זוגות)(?=\s|$)/, 2],
+  [/(?:^|\s)שלישיי(?:ת|ה)(?=\s|$)/, 3],
+  [/(?:^|\s)רביעיי(?:ת|ה)(?=\s|$)/, 4],
+  [/(?:^|\s)שישיי(?:ת|ה)(?=\s|$)/, 6],
+  [/(?:^|\s)שמיניי(?:ת|ה)(?=\s|$)/, 8],
+  [/(?:^|\s)תריסר(?=\s|$)/, 12],
+];
+const QTY_WORDS: Record<string, number> = {
+  "שתי": 2, "שני": 2, "שתיים": 2, "שניים": 2, "two": 2,
+  "שלוש": 3, "שלושה": 3, "three": 3,
+  "ארבע": 4, "ארבעה": 4, "four": 4,
+  "חמש": 5, "חמישה": 5, "five": 5,
+};
 
-TOOLS:
-- web_search: issue focused bilingual queries with brand + size + pack and "₪", using site filters from ALLOWED_DOMAINS (e.g., site:shufersal.co.il).
-`.trim();
+const SIZE_RE = /(?:^|\s)(\d+(?:[.,]\d+)?|חצי)\s*-?\s*(ליטרים|ליטר|מיליליטר|מ"ל|מל|ק"ג|קילוגרם|קילו|קג|גרמים|גרם|גר'|גר|ג'|יחידות|יחידה|יח'|יח|ל'|ל"|liters?|litres?|ltr|lt|ml|kg|kilos?|grams?|gr|g|l|units?|pcs|pc|ל)(?=[\s,.)]|$)/i;
 
-// ===== Function Tool Schema (submit_results) =====
-const SUBMIT_RESULTS_SCHEMA = {
-  type: "object",
-  additionalProperties: false,
-  required: ["status","results"],
-  properties: {
-    status: { type:"string", enum:["ok"] },
-    results: {
-      type: "array",
-      items: {
-        type: "object",
-        additionalProperties: false,
-        required: [
-          "rank","store_name","branch_id","branch_name","address","branch_url",
-          "distance_km","currency","total_price","coverage","notes",
-          "basket","match_overall"
-        ],
-        properties: {
-          rank: { type:"integer" },
-          store_name: { type:"string" },
-          branch_id: { type:"string" },
-          branch_name: { type:"string" },
-          address: { type:"string" },
-          branch_url: { type:"string" },
-          distance_km: { type:"number" },
-          currency: { type:"string" },
-          total_price: { type:"number" },
-          coverage: { type:"number", minimum:0, maximum:1 },
-          notes: { type:["string","null"] },
-          basket: {
-            type: "array",
-            minItems: 1,
-            items: {
-              type: "object",
-              additionalProperties: false,
-              required: [
-                "name","brand","quantity","size","pack_qty","unit",
-                "unit_price","ppu","line_total",
-                "product_url","source_domain","source_title",
-                "observed_price_text","observed_at","in_stock",
-                "match_confidence","substitution","notes"
-              ],
-              properties: {
-                name: { type:"string" },
-                brand: { type:["string","null"] },
-                quantity: { type:"number" },
-                size: { type:["string","null"] },
-                pack_qty: { type:["number","null"] },
-                unit: { type:["string","null"] },
-                unit_price: { type:"number" },
-                ppu: { type:["number","null"] },
-                line_total: { type:"number" },
-                product_url: { type:"string" },
-                source_domain: { type:"string" },
-                source_title: { type:["string","null"] },
-                observed_price_text: { type:["string","null"] },
-                observed_at: { type:["string","null"] },
-                in_stock: { type:"boolean" },
-                match_confidence: { type:"number", minimum:0, maximum:1 },
-                substitution: { type:"boolean" },
-                notes: { type:["string","null"] }
-              }
-            }
-          },
-          match_overall: { type:"number", minimum:0, maximum:1 }
-        }
-      }
-    }
+function listUnit(tok:string): ListUnit | null {
+  for (const [re, u] of LIST_UNITS) if (re.test(tok)) return u;
+  return null;
+}
+function fmtNum(n:number){ return String(Math.round(n * 1000) / 1000); }
+// Hebrew geresh/gershayim and multiplication signs -> ASCII, so one regex fits all inputs
+function normalizeUnitText(s:string){
+  return normalizeSpaces(stripBidiControls(s).replace(/[׳’`]/g, "'").replace(/[״”“]/g, '"').replace(/×/g, "x"));
+}
+// First "<number> <unit>" in text: "1.5 ל'", "500 גרם", "1,5L", "חצי ק"ג"
+function parseSize(text:string): { size:number; unit:ListUnit; match:string } | null {
+  const sm = normalizeUnitText(text).match(SIZE_RE);
+  if (!sm) return null;
+  const n = sm[1] === "חצי" ? 0.5 : Number(sm[1].replace(",", "."));
+  const u = listUnit(sm[2]);
+  return u && Number.isFinite(n) && n > 0 ? { size: n, unit: u, match: sm[0] } : null;
+}
+
+function parseListLine(raw:string): ListItem | null {
+  // Normalize Hebrew geresh/gershayim and multiplication signs
+  let s = normalizeUnitText(raw);
+  if (!s) return null;
+  const exact = /!\s*$/.test(s);
+  if (exact) s = s.replace(/[\s!]+$/, "");
+  let quantity: number | null = null;
+  let pack_qty: number | null = null;
+  let size: number | null = null;
+  let unit: ListUnit | null = null;
+
+  // Pack words (שישיית / רביעייה / זוג ...)
+  for (const [re, n] of PACK_WORDS){
+    if (re.test(s)){ pack_qty = n; s = s.replace(re, " "); break; }
   }
-} as const;
+  // Explicit packs: "מארז 6", "6 במארז", "6-pack", "pack of 6"
+  const pk = s.match(/(?:מארז|pack of)\s*(\d+)|(\d+)\s*(?:במארז|-?pack)(?=\s|$)/i);   // \b does not see Hebrew letters
+  if (pk){ pack_qty = Number(pk[1] || pk[2]); s = s.replace(pk[0], " "); }
 
-// ===== OpenAI Responses API =====
-async function callOpenAIOnce(systemPrompt: string, userPrompt: string, id: string){
-  if (!OPENAI_KEY) throw new HttpError(500, "Missing OPENAI_API_KEY");
+  // Pack times size: "6x1.5 ל'", "4*160 גרם" (a bare "2 x קולה" is a quantity, below)
+  const px = s.match(/(?:^|\s)(\d+)\s*[x*]\s*(?=\d)/i);
+  if (px && pack_qty == null){
+    const rest = s.slice(0, px.index) + " " + s.slice(px.index! + px[0].length);
+    const inner = parseSize(rest);
+    if (inner && inner.unit !== "unit"){ pack_qty = Number(px[1]); s = rest; }
+  }
 
-  const body: any = {
-    model: OPENAI_MODEL,
-    instructions: systemPrompt,
-    input: userPrompt,
-    tools: [
-      { type: "web_search" },
-      {
-        type: "function",
-        name: "submit_results",
-        description: "Return final structured comparison results. MUST be called exactly once at the end.",
-        parameters: SUBMIT_RESULTS_SCHEMA
-      }
-    ],
-    tool_choice: "auto",
-    temperature: Number.isFinite(OPENAI_TEMP) ? OPENAI_TEMP : 0,
-    max_output_tokens: 2200
-  };
+  // Size + unit; a unit count ("3 יח'") may come before the real size ("3 יח' יוגורט 150 גרם")
+  for (let pass = 0; pass < 2; pass++){
+    const sz = parseSize(s);
+    if (!sz || (sz.unit === "unit" && pass > 0)) break;
+    s = s.replace(sz.match, " ");
+    if (sz.unit !== "unit"){ size = sz.size; unit = sz.unit; break; }
+    pack_qty = pack_qty ?? sz.size;
+  }
 
-  const jsonOrText = await retry(async ()=>{
-    const r = await fetchWithTimeout("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        "authorization": `Bearer ${OPENAI_KEY}`,
-        "content-type": "application/json",
-        "user-agent": UA
-      },
-      body: JSON.stringify(body)
-    }, OPENAI_TIMEOUT_MS);
-    const xrid = r.headers.get("x-request-id") || r.headers.get("openai-request-id") || null;
-    let parsed: any = null; let raw: any = null;
-    try{ raw = await r.json(); } catch{ raw = await r.text(); }
-    if (!r.ok) throw new HttpError(r.status, `OpenAI ${r.status}`, { error: (raw?.error ?? raw ?? null), full_response: raw ?? null, x_request_id: xrid });
-
-    const outputArr = Array.isArray(raw?.output) ? raw.output : [];
-    const fnCall = outputArr.find((p:any)=> p?.type==="function_call" && p?.name==="submit_results");
-    if (!fnCall) {
-      const text = (typeof raw?.output_text === "string" && raw.output_text) || (Array.isArray(outputArr) ? outputArr.map((p:any)=> (typeof p?.content === "string" ? p.content : "")).join("\n") : "") || "";
-      const tryParsed = extractJson(text);
-      if (tryParsed) return { parsed: tryParsed, raw, request_id: xrid };
-      throw new HttpError(400, "Model did not return a submit_results tool call", { output_text_excerpt: text ? text.slice(0, SAFE_DEBUG_MAX) : "", raw_excerpt: JSON.stringify(raw ?? "").slice(0, SAFE_DEBUG_MAX), x_request_id: xrid });
+  // Quantity: leading "2", "2x", "x2", trailing "x2"/"2x", or a Hebrew/English number word
+  s = normalizeSpaces(s);
+  const lead = s.match(/^(?:x\s*)?(\d+)\s*x?\s+(?=\D)/i);
+  if (lead){ quantity = Number(lead[1]); s = s.slice(lead[0].length); }
+  else {
+    const trail = s.match(/\s+(?:x\s*(\d+)|(\d+)\s*x)$/i);
+    if (trail){ quantity = Number(trail[1] || trail[2]); s = s.slice(0, trail.index); }
+    else {
+      const w = s.split(" ")[0]?.toLowerCase();
+      if (w && QTY_WORDS[w] && s.includes(" ")){ quantity = QTY_WORDS[w]; s = s.slice(w.length); }
     }
+  }
 
-    try{
-      parsed = typeof fnCall.arguments === "string" ? JSON.parse(fnCall.arguments) : fnCall.arguments;
-    } catch {
-      throw new HttpError(400, "Failed to parse submit_results.arguments", { arguments_excerpt: String(fnCall?.arguments ?? "").slice(0, SAFE_DEBUG_MAX), x_request_id: xrid });
-    }
+  const name = normalizeSpaces(s.replace(/^[\s\-–,.:]+|[\s\-–,.:]+$/g, ""));
+  if (!name) return null;
+  const size_text = size != null && unit ? `${fmtNum(size)} ${unit}` : null;
+  return {
+    raw: normalizeSpaces(raw),
+    name,
+    quantity: quantity && quantity > 0 ? quantity : 1,
+    pack_qty,
+    size,
+    unit: unit ?? (pack_qty ? "unit" : null),
+    size_text,
+    ...(exact ? { exact } : {})
+  };
+}
 
-    return { parsed, raw, request_id: xrid };
-  }, 2); // light retry
+function parseList(list_text:string): ListItem[] {
+  // Split on newlines, semicolons and commas that are not decimal separators ("1,5 ל'")
+  return list_text.split(/[\n;]+|,(?!\d)|(?<!\d),/)
+    .map(x => parseListLine(x))
+    .filter((x): x is ListItem => !!x);
+}
 
-  return jsonOrText;
+// Best list item for a basket line name (token overlap), used to tie model lines back to the list
+function matchListItem(items:ListItem[], lineName:string): ListItem | null {
+  let best: ListItem | null = null; let bestScore = 0;
+  for (const li of items){
+    const score = tokenOverlap(li.name, lineName);
+    if (score > bestScore){ best = li; bestScore = score; }
+  }
+  return bestScore >= 0.5 ? best : null;
 }
 
-// ===== Verification (server-side) =====
-const ALLOW = new Set([...APPROVED_DOMAINS]);
+// ===== Unit-price normalization =====
+// Server-side arithmetic for basket lines: canonical base units (₪/l, ₪/kg, ₪/unit),
+// recomputed ppu/line_total/total_price, and flags where the model's numbers disagree.
+type BaseUnit = "l" | "kg" | "unit";
+type LineNormalization = {
+  base_unit: BaseUnit | null;
+  base_amount: number | null;
+  ppu: number | null;
+  model_ppu: number | null;
+  line_total: number | null;
+  regular_total: number | null;
+  model_line_total: number | null;
+  equivalent_total: number | null;
+  flags: string[];
+};
+type PriceCheck = { model_total: number | null; recomputed_total: number; regular_total: number; total_matches: boolean; mismatched_lines: number };
+const PRICE_TOLERANCE = 0.05;
 
-function hostOK(urlStr:string){
-  try { const u = new URL(urlStr); if (!/^https?:$/.test(u.protocol)) return false; return ALLOW.has(u.hostname.replace(/^www\./,"")); }
-  catch { return false; }
+function round2(n:number){ return Math.round(n * 100) / 100; }
+function relClose(a:number, b:number, pct = PRICE_TOLERANCE){
+  return Math.abs(a - b) <= Math.max(0.05, Math.abs(b) * pct);
 }
 
-function extractPriceFromHtml(htmlRaw:string){
-  const html = decodeHtmlEntities(htmlRaw);
+// Canonical amount of one purchased item (size × pack), e.g. 6 × 1.5 ל' -> { amount: 9, base: "l" }
+function baseAmount(size:number|null, unit:ListUnit|null, pack_qty:number|null): { amount:number; base:BaseUnit } | null {
+  const pack = pack_qty && pack_qty > 0 ? pack_qty : 1;
+  if (size == null || !unit) return pack_qty ? { amount: pack, base: "unit" } : null;
+  if (unit === "ml") return { amount: size / 1000 * pack, base: "l" };
+  if (unit === "g")  return { amount: size / 1000 * pack, base: "kg" };
+  return { amount: size * pack, base: unit };
+}
+
+// Model lines carry size/unit as free text ("1.5 ליטר", "6x1.5L"); read them the same way as the list
+function lineBaseAmount(line:Pick<BasketLine, "size" | "unit" | "pack_qty">){
+  const sz = parseSize([line.size, line.unit].filter(Boolean).join(" "));
+  const packFromSize = String(line.size ?? "").match(/(\d+)\s*x\s*\d/i);
+  const pack = typeof line.pack_qty === "number" ? line.pack_qty : packFromSize ? Number(packFromSize[1]) : null;
+  if (!sz) return baseAmount(null, null, pack);
+  return sz.unit === "unit" ? { amount: sz.size * (pack ?? 1), base: "unit" as const } : baseAmount(sz.size, sz.unit, pack);
+}
+
+function normalizeLine(line:BasketLine, want?:ListItem|null): LineNormalization {
+  const flags: string[] = [];
+  const unit_price = typeof line.unit_price === "number" ? line.unit_price : null;
+  const quantity = typeof line.quantity === "number" && line.quantity > 0 ? line.quantity : (want?.quantity ?? 1);
+  const ba = lineBaseAmount(line);
+  const model_ppu = typeof line.ppu === "number" ? line.ppu : null;
+  const model_line_total = typeof line.line_total === "number" ? line.line_total : null;
+
+  // Promotions (see priceLine) set the effective price actually paid at this quantity
+  const paid_unit = typeof line.pricing?.effective_unit_price === "number" ? line.pricing.effective_unit_price : unit_price;
+  const ppu = paid_unit != null && ba && ba.amount > 0 ? round2(paid_unit / ba.amount) : null;
+  const line_total = typeof line.pricing?.effective_total === "number" ? line.pricing.effective_total
+    : unit_price != null ? round2(unit_price * quantity) : model_line_total;
+  // The model reports shelf prices: check it against the regular (pre-promotion) figures
+  const regular_total = typeof line.pricing?.regular_total === "number" ? line.pricing.regular_total
+    : unit_price != null ? round2(unit_price * quantity) : null;
+  const regular_ppu = unit_price != null && ba && ba.amount > 0 ? round2(unit_price / ba.amount) : null;
+  if (regular_ppu != null && model_ppu != null && !relClose(model_ppu, regular_ppu) && !relClose(model_ppu, ppu ?? regular_ppu)) flags.push("ppu_mismatch");
+  if (regular_total != null && model_line_total != null && !relClose(model_line_total, regular_total)) flags.push("line_total_mismatch");
+  if (!ba) flags.push("size_unknown");
+
+  // Substitutes are compared on the amount the user asked for, priced at the substitute's ppu
+  const wantBa = want ? baseAmount(want.size, want.unit, want.pack_qty) : null;
+  let equivalent_total = line_total;
+  if (line.substitution && ppu != null && wantBa && ba && wantBa.base === ba.base){
+    equivalent_total = round2(ppu * wantBa.amount * (want?.quantity ?? quantity));
+  } else if (line.substitution && wantBa && ba && wantBa.base !== ba.base){
+    flags.push("substitute_unit_differs");
+  }
+
+  line.quantity = quantity;
+  if (ppu != null) line.ppu = ppu;
+  if (line_total != null) line.line_total = line_total;
+  line.normalization = {
+    base_unit: ba?.base ?? null,
+    base_amount: ba ? Math.round(ba.amount * 1000) / 1000 : null,
+    ppu, model_ppu, line_total, regular_total, model_line_total, equivalent_total, flags
+  };
+  return line.normalization;
+}
+
+function normalizeStore(store:StoreResult, wants:(ListItem|null)[] = []): PriceCheck {
+  const lines = Array.isArray(store.basket) ? store.basket : [];
+  const norms = lines.map((l, i)=> normalizeLine(l, wants[i]));
+  const model_total = typeof store.total_price === "number" ? store.total_price : null;
+  const total = round2(norms.reduce((s, n)=> s + (n.line_total ?? 0), 0));
+  const regular_total = round2(norms.reduce((s, n)=> s + (n.regular_total ?? n.line_total ?? 0), 0));
+  const normalized_total = round2(norms.reduce((s, n)=> s + (n.equivalent_total ?? n.line_total ?? 0), 0));
+  const mismatched_lines = norms.filter(n => n.flags.some(f => f.endsWith("_mismatch"))).length;
+
+  store.total_price = total;
+  store.normalized_total = normalized_total;
+  store.price_check = {
+    model_total,
+    recomputed_total: total,
+    regular_total,
+    total_matches: model_total == null || relClose(model_total, regular_total),
+    mismatched_lines
+  };
+  return store.price_check;
+}
+
+// ===== Promotions & club prices =====
+// Promotions come from the feeds (PromoFull), the product page (adapter promo) or the
+// model's promo_text. A club promotion only applies when the user is a member of that
+// chain's club (`clubs` in the request).
+type PromoKind = "fixed_price" | "multi_buy" | "nth_discount" | "percent_off";
+type LinePricing = {
+  regular_total: number;
+  public_total: number;         // best promotion open to everyone
+  club_total: number;           // best promotion including club-only ones
+  club_member: boolean;
+  effective_total: number;      // what this user pays: club_total for members, else public_total
+  effective_unit_price: number;
+  applied: Promotion | null;
+};
+type PromoSummary = { regular_total: number; effective_total: number; promo_savings: number; club_savings: number; club_only_available: number };
+type Promotion = {
+  kind: PromoKind;
+  description: string;
+  club_only: boolean;
+  min_qty: number;                 // multi_buy: bundle size; nth_discount: every nth unit
+  bundle_price: number | null;     // multi_buy: "2 ב-₪20" -> 20
+  unit_price: number | null;       // fixed_price
+  percent: number | null;          // nth_discount / percent_off: 0..100
+  source: "feed" | "page" | "model";
+};
+
+const CLUB_RE = /מועדון|לחברי|חברי\s*מועדון|כרטיס\s*אשראי|\bclub\b|\bYOU\b/i;
+
+function parsePromotionText(text:string, source:Promotion["source"]): Promotion | null {
+  const t = normalizeUnitText(text);
+  if (!t) return null;
+  const base = { description: cleanText(text, 160), club_only: CLUB_RE.test(t), source };
+  let m: RegExpMatchArray | null;
+  // "1+1" / "קנה 2 קבל 1"
+  if ((m = t.match(/(\d+)\s*\+\s*(\d+)/)) || (m = t.match(/קנה\s*(\d+)\s*קבל\s*(\d+)/))){
+    // every (buy+free) units, `free` of them cost nothing: one "nth" unit at 100% × free
+    const buy = Number(m[1]), free = Number(m[2]);
+    if (buy > 0 && free > 0) return { ...base, kind: "nth_discount", min_qty: buy + free, bundle_price: null, unit_price: null, percent: 100 * free };
+  }
+  // "השני ב-50%" / "השנייה בחצי מחיר" / "יחידה שנייה ב-1 ₪" are all "every 2nd unit discounted"
+  if (/(?:השני|השנייה|השניה|יחידה\s*שני(?:י)?ה)\s*(?:ב-?\s*)?(?:חצי\s*מחיר|50\s*%)/.test(t)){
+    return { ...base, kind: "nth_discount", min_qty: 2, bundle_price: null, unit_price: null, percent: 50 };
+  }
+  if ((m = t.match(/(?:השני|השנייה|השניה)\s*ב-?\s*(\d+(?:\.\d+)?)\s*%/))){
+    return { ...base, kind: "nth_discount", min_qty: 2, bundle_price: null, unit_price: null, percent: Number(m[1]) };
+  }
+  // "2 ב-₪20", "3 ב 10 ₪", "2 יח' ב-13.90"
+  if ((m = t.match(/(\d+)\s*(?:יח'|יחידות)?\s*ב-?\s*₪?\s*(\d+(?:[.,]\d+)?)/))){
+    const n = Number(m[1]), p = priceNum(m[2]);
+    if (n > 1 && p != null) return { ...base, kind: "multi_buy", min_qty: n, bundle_price: p, unit_price: null, percent: null };
+  }
+  // "20% הנחה"
+  if ((m = t.match(/(\d+(?:\.\d+)?)\s*%\s*הנחה|הנחה\s*(?:של\s*)?(\d+(?:\.\d+)?)\s*%/))){
+    return { ...base, kind: "percent_off", min_qty: 1, bundle_price: null, unit_price: null, percent: Number(m[1] || m[2]) };
+  }
+  // "מחיר מבצע 5.90" / "ב-5.90 ₪"
+  if ((m = t.match(/(?:ב-?|מחיר\s*מבצע:?)\s*₪?\s*(\d+(?:[.,]\d+)?)\s*₪?/))){
+    const p = priceNum(m[1]);
+    if (p != null) return { ...base, kind: "fixed_price", min_qty: 1, bundle_price: null, unit_price: p, percent: null };
+  }
+  return null;
+}
+
+function promotionFromFeed(p:FeedPromo): Promotion | null {
+  const fromText = parsePromotionText(p.description, "feed");
+  const min_qty = p.min_qty && p.min_qty > 0 ? p.min_qty : 1;
+  if (p.discounted_price != null){
+    // PromoFull: DiscountedPrice is the price of the whole MinQty bundle
+    return min_qty > 1
+      ? { kind: "multi_buy", description: p.description, club_only: p.club_only, min_qty, bundle_price: p.discounted_price, unit_price: null, percent: null, source: "feed" }
+      : { kind: "fixed_price", description: p.description, club_only: p.club_only, min_qty: 1, bundle_price: null, unit_price: p.discounted_price, percent: null, source: "feed" };
+  }
+  return fromText ? { ...fromText, club_only: fromText.club_only || p.club_only } : null;
+}
+
+// Total for `quantity` units under one promotion (null = not applicable)
+function promoTotal(p:Promotion, unit_price:number, quantity:number): number | null {
+  switch (p.kind){
+    case "fixed_price":
+      return p.unit_price != null && quantity >= p.min_qty ? p.unit_price * quantity : null;
+    case "multi_buy": {
+      if (p.bundle_price == null || quantity < p.min_qty) return null;
+      const bundles = Math.floor(quantity / p.min_qty);
+      return bundles * p.bundle_price + (quantity - bundles * p.min_qty) * unit_price;
+    }
+    case "nth_discount": {
+      if (p.percent == null || quantity < p.min_qty) return null;
+      const discounted = Math.floor(quantity / p.min_qty);
+      return quantity * unit_price - discounted * unit_price * p.percent / 100;
+    }
+    case "percent_off":
+      return p.percent != null && quantity >= p.min_qty ? quantity * unit_price * (1 - p.percent / 100) : null;
+  }
+}
+
+function bestPromo(promos:Promotion[], unit_price:number, quantity:number){
+  let best: { promo:Promotion; total:number } | null = null;
+  for (const p of promos){
+    const t = promoTotal(p, unit_price, quantity);
+    if (t != null && t < unit_price * quantity && (!best || t < best.total)) best = { promo: p, total: t };
+  }
+  return best;
+}
+
+// A club is named by the chain's Hebrew or English name or its registry id ("shufersal")
+function isClubMember(chain:string, clubs:string[]){
+  const norm = (s:string)=> s.toLowerCase().replace(/["'״׳\s-]+/g, "");
+  const r = retailerByName(chain);
+  const names = [chain, r?.id, r?.name_en].filter((x): x is string => !!x).map(norm).filter(Boolean);
+  return names.length > 0 && clubs.some(c => names.includes(norm(c)));
+}
+
+// Collect the line's promotions and set regular vs effective pricing on it (alerts and barcode
+// lookups price bare { unit_price, quantity, verification } lines)
+function priceLine(line:Partial<BasketLine>, chain:string, clubs:string[]): LinePricing | null {
+  const v: Partial<Proof> = line.verification || {};
+  const promos: Promotion[] = Array.isArray(line.promotions) ? [...line.promotions] : [];
+  if (typeof v.promo_price === "number"){
+    const fromPage = v.promo_text ? parsePromotionText(v.promo_text, "page") : null;
+    promos.push(fromPage ?? { kind: "fixed_price", description: v.promo_text || "מחיר מבצע", club_only: CLUB_RE.test(v.promo_text || ""), min_qty: 1, bundle_price: null, unit_price: v.promo_price, percent: null, source: "page" });
+  }
+  if (line.promo_text){
+    const fromModel = parsePromotionText(String(line.promo_text), "model");
+    if (fromModel) promos.push(fromModel);
+  }
+
+  // Regular price: what the page shows as the main price when it confirmed the line
+  const regular = typeof v.price_extracted === "number" && v.price_matches ? v.price_extracted
+    : typeof line.unit_price === "number" ? line.unit_price : null;
+  if (regular == null) return null;
+  const quantity = typeof line.quantity === "number" && line.quantity > 0 ? line.quantity : 1;
+  const regular_total = round2(regular * quantity);
+  const pub = bestPromo(promos.filter(p => !p.club_only), regular, quantity);
+  const club = bestPromo(promos, regular, quantity);
+  const member = isClubMember(chain, clubs);
+  const chosen = member ? club : pub;
+
+  line.unit_price = regular;
+  line.regular_price = regular;
+  line.promotions = promos;
+  line.pricing = {
+    regular_total,
+    public_total: round2(pub?.total ?? regular_total),
+    club_total: round2(club?.total ?? regular_total),
+    club_member: member,
+    effective_total: round2(chosen?.total ?? regular_total),
+    effective_unit_price: round2((chosen?.total ?? regular_total) / quantity),
+    applied: chosen?.promo ?? null
+  };
+  return line.pricing;
+}
+
+function applyStorePromotions(store:StoreResult, clubs:string[]): PromoSummary {
+  const lines = Array.isArray(store.basket) ? store.basket : [];
+  const priced = lines.map(l => priceLine(l, String(store.store_name || ""), clubs)).filter((p): p is LinePricing => !!p);
+  const regular_total = round2(priced.reduce((s, p)=> s + p.regular_total, 0));
+  const effective_total = round2(priced.reduce((s, p)=> s + p.effective_total, 0));
+  store.promo_summary = {
+    regular_total,
+    effective_total,
+    promo_savings: round2(regular_total - effective_total),
+    club_savings: round2(priced.reduce((s, p)=> s + (p.club_member ? p.public_total - p.club_total : 0), 0)),
+    club_only_available: round2(priced.reduce((s, p)=> s + (!p.club_member ? p.public_total - p.club_total : 0), 0))
+  };
+  return store.promo_summary;
+}
+
+function parseClubs(x:unknown): string[] {
+  const arr = Array.isArray(x) ? x : typeof x === "string" ? x.split(",") : [];
+  return arr.map(c => cleanText(String(c), 40)).filter(Boolean).slice(0, 20);
+}
+
+// ===== Split-basket optimizer =====
+// Cheapest assignment of list items to at most N branches. Each store visited costs
+// SPLIT_EXTRA_STORE_COST beyond the first, plus travel (home -> stores -> home) × cost_per_km.
+// Plans covering more of the list win over cheaper ones covering less; items no candidate set
+// prices are reported in missing_items (for the plan and for best_single) instead of dropping the plan.
+type SplitOptions = { max_stores: number; cost_per_km: number; extra_store_cost: number; fulfillment: FulfillmentMode };
+
+function permutations<T>(a:T[]): T[][] {
+  return a.length <= 1 ? [a] : a.flatMap((x, i) => permutations([...a.slice(0, i), ...a.slice(i + 1)]).map(p => [x, ...p]));
+}
+
+function tourKm(center:{lat:number;lng:number}, pts:{lat:number;lng:number}[]){
+  let best = Infinity;
+  for (const p of permutations(pts)){
+    let d = 0, cur = center;
+    for (const q of p){ d += haversineKm(cur, q); cur = q; }
+    best = Math.min(best, d + haversineKm(cur, center));
+  }
+  return pts.length ? best : 0;
+}
+
+function combinations<T>(arr:T[], k:number): T[][] {
+  if (k === 0) return [[]];
+  return arr.flatMap((x, i) => combinations(arr.slice(i + 1), k - 1).map(c => [x, ...c]));
+}
+
+function planSplitBasket(stores:StoreResult[], lines:ListItem[], center:{lat:number;lng:number}, approved:Map<string, Branch>, opt:SplitOptions){
+  // Per store: cheapest verified line for each list item
+  const cands = stores.map(s => {
+    const prices = new Map<number, { cost:number; line:BasketLine }>();
+    for (const l of (s.basket || [])){
+      if (typeof l.list_index !== "number" || l.verification?.notes !== "OK") continue;
+      const cost = l.normalization?.equivalent_total ?? l.line_total;
+      if (typeof cost !== "number") continue;
+      const prev = prices.get(l.list_index);
+      if (!prev || cost < prev.cost) prices.set(l.list_index, { cost, line: l });
+    }
+    const b = approved.get(s.branch_id);
+    return { store: s, prices, pt: b ? { lat: b.lat, lng: b.lng } : null };
+  }).filter(c => c.prices.size && c.pt);
+
+  if (!cands.length) return null;
+  const target = new Set<number>([...lines.keys(), ...cands.flatMap(c => [...c.prices.keys()])]);
+  const missingOf = (assign:Map<number, unknown>)=> [...target].filter(i => !assign.has(i)).map(i => lines[i]?.raw ?? `#${i + 1}`);
+
+  const evaluate = (set: typeof cands) => {
+    const assign = new Map<number, { cand: typeof cands[number]; cost:number; line:BasketLine }>();
+    for (const idx of target){
+      for (const c of set){
+        const p = c.prices.get(idx);
+        if (p && (!assign.has(idx) || p.cost < assign.get(idx)!.cost)) assign.set(idx, { cand: c, ...p });
+      }
+    }
+    const used = set.filter(c => [...assign.values()].some(a => a.cand === c));
+    if (used.length !== set.length) return null;    // a smaller subset already covers this plan
+    const items_total = round2([...assign.values()].reduce((s, a) => s + a.cost, 0));
+    // Each online order pays its own fee and minimum basket
+    const charges = new Map<typeof cands[number], { fee:number; topup:number }>();
+    for (const c of used){
+      const sub = [...assign.values()].filter(a => a.cand === c).reduce((s, a) => s + a.cost, 0);
+      const ch = fulfillmentCharge(retailerByName(c.store.store_name)?.delivery, opt.fulfillment, sub);
+      if (!ch) return null;
+      charges.set(c, ch);
+    }
+    const fulfillment_cost = round2([...charges.values()].reduce((s, ch) => s + ch.fee + ch.topup, 0));
+    const travel_km = opt.fulfillment === "delivery" ? 0 : Math.round(tourKm(center, used.map(c => c.pt!)) * 10) / 10;
+    const travel_cost = opt.fulfillment === "delivery" ? 0 : round2(travel_km * opt.cost_per_km + Math.max(0, used.length - 1) * opt.extra_store_cost);
+    return { set: used, assign, charges, items_total, fulfillment_cost, travel_km, travel_cost, total_cost: round2(items_total + fulfillment_cost + travel_cost) };
+  };
+
+  type Plan = NonNullable<ReturnType<typeof evaluate>>;
+  const better = (r:Plan, cur:Plan | null)=> !cur || r.assign.size > cur.assign.size || (r.assign.size === cur.assign.size && r.total_cost < cur.total_cost);
+  let best: Plan | null = null;
+  let bestSingle: Plan | null = null;
+  for (let k = 1; k <= Math.min(opt.max_stores, cands.length); k++){
+    for (const set of combinations(cands, k)){
+      const r = evaluate(set);
+      if (!r) continue;
+      if (better(r, best)) best = r;
+      if (k === 1 && better(r, bestSingle)) bestSingle = r;
+    }
+  }
+  if (!best) return null;
+
+  return {
+    ...opt,
+    items_covered: best.assign.size,
+    items_wanted: target.size,
+    missing_items: missingOf(best.assign),
+    stores: best.set.map(c => {
+      const lines = [...best!.assign.entries()].filter(([, a]) => a.cand === c).map(([list_index, a]) => ({
+        list_index, name: a.line.name, cost: a.cost, line_total: a.line.line_total, product_url: a.line.product_url
+      }));
+      return {
+        branch_id: c.store.branch_id, store_name: c.store.store_name, branch_name: c.store.branch_name,
+        distance_km: c.store.distance_km, subtotal: round2(lines.reduce((s, l) => s + l.cost, 0)),
+        delivery: best!.charges.get(c)!.fee, below_minimum: best!.charges.get(c)!.topup, lines
+      };
+    }),
+    items_total: best.items_total,
+    fulfillment_cost: best.fulfillment_cost,
+    travel_km: best.travel_km,
+    travel_cost: best.travel_cost,
+    total_cost: best.total_cost,
+    best_single: bestSingle ? {
+      branch_id: bestSingle.set[0].store.branch_id, store_name: bestSingle.set[0].store.store_name,
+      items_covered: bestSingle.assign.size, missing_items: missingOf(bestSingle.assign),
+      items_total: bestSingle.items_total, fulfillment_cost: bestSingle.fulfillment_cost, travel_cost: bestSingle.travel_cost, total_cost: bestSingle.total_cost
+    } : null,
+    savings: bestSingle ? round2(bestSingle.total_cost - best.total_cost) : null,
+    savings_items_only: bestSingle ? round2(bestSingle.items_total - best.items_total) : null
+  };
+}
+
+type SplitPlan = NonNullable<ReturnType<typeof planSplitBasket>>;
+
+function splitOptions(body:Record<string, unknown> | null | undefined): SplitOptions {
+  const num = (v:unknown, d:number) => Number.isFinite(Number(v)) && v !== null && v !== "" ? Number(v) : d;
+  return {
+    max_stores: Math.max(1, Math.min(4, Math.round(num(body?.max_stores, 2)))),
+    cost_per_km: Math.max(0, num(body?.cost_per_km, SPLIT_COST_PER_KM)),
+    extra_store_cost: Math.max(0, num(body?.extra_store_cost, SPLIT_EXTRA_STORE_COST)),
+    fulfillment: fulfillmentMode(body?.fulfillment)
+  };
+}
+
+// ===== Price-transparency feeds (PriceFull / PromoFull / Stores XML) =====
+// Chains publish these per branch (often gzipped). We load them from FEEDS_DIR
+// and index prices by ItemCode per chain store, so a basket can be priced without the model.
+type FeedItem = {
+  item_code: string;
+  name: string;
+  manufacturer: string | null;
+  quantity: number | null;
+  unit: string | null;
+  pack_qty: number | null;
+  is_weighted: boolean;
+  price: number;
+  unit_price: number | null;
+  updated_at: string | null;
+};
+type FeedPromo = {
+  promotion_id: string;
+  description: string;
+  start: string | null;
+  end: string | null;
+  min_qty: number | null;
+  discounted_price: number | null;
+  club_only: boolean;              // <Clubs><ClubId>: 0 = all customers
+  item_codes: string[];
+};
+type FeedStore = {
+  chain: string;
+  chain_id: string;
+  store_id: string;
+  name: string;
+  address: string;
+  city: string;
+  items: Map<string, FeedItem>;
+  promos: FeedPromo[];
+};
+
+const FEED_STORES = new Map<string, FeedStore>();   // `${chain_id}:${store_id}`
+const FEED_STATS = { files: 0, failed: 0, items: 0, promos: 0, loaded_at: null as string|null };
+const FEED_MATCH_MIN = 0.6;
+
+function feedKey(chainId:string, storeId:string){ return `${chainId}:${String(Number(storeId) || storeId)}`; }
+
+function xmlBlocks(xml:string, tag:string): string[] {
+  const re = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "gi");
+  const out: string[] = []; let m: RegExpExecArray | null;
+  while ((m = re.exec(xml))) out.push(m[1]);
+  return out;
+}
+function xmlText(block:string, tag:string): string {
+  const m = new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, "i").exec(block);
+  return m ? cleanText(m[1].replace(/^<!\[CDATA\[|\]\]>$/g, "")) : "";
+}
+function xmlNum(block:string, tag:string): number | null {
+  const s = xmlText(block, tag);
+  if (!s) return null;
+  const v = Number(s);
+  return Number.isFinite(v) ? v : null;
+}
+
+function getOrCreateFeedStore(chainId:string, storeId:string): FeedStore | null {
+  const chain = retailerByChainId(chainId);
+  if (!chain || !storeId) return null;
+  const key = feedKey(chainId, storeId);
+  let s = FEED_STORES.get(key);
+  if (!s){
+    s = { chain: chain.name_he, chain_id: chainId, store_id: String(Number(storeId) || storeId), name: "", address: "", city: "", items: new Map(), promos: [] };
+    FEED_STORES.set(key, s);
+  }
+  return s;
+}
+
+function ingestPriceXml(xml:string, fileName:string){
+  const chainId = xmlText(xml, "ChainId") || (fileName.match(/(\d{13})/)?.[1] ?? "");
+  const storeId = xmlText(xml, "StoreId") || (fileName.match(/\d{13}-(\d+)/)?.[1] ?? "");
+  const store = getOrCreateFeedStore(chainId, storeId);
+  if (!store) return 0;
+  let n = 0;
+  for (const b of xmlBlocks(xml, "Item")){
+    const code = xmlText(b, "ItemCode");
+    const price = xmlNum(b, "ItemPrice");
+    if (!code || price == null) continue;
+    store.items.set(code, {
+      item_code: code,
+      name: xmlText(b, "ItemName") || xmlText(b, "ManufacturerItemDescription"),
+      manufacturer: xmlText(b, "ManufacturerName") || null,
+      quantity: xmlNum(b, "Quantity"),
+      unit: xmlText(b, "UnitQty") || xmlText(b, "UnitOfMeasure") || null,
+      pack_qty: xmlNum(b, "QtyInPackage"),
+      is_weighted: xmlText(b, "bIsWeighted") === "1",
+      price,
+      unit_price: xmlNum(b, "UnitOfMeasurePrice"),
+      updated_at: xmlText(b, "PriceUpdateDate") || null
+    });
+    n++;
+  }
+  return n;
+}
+
+function ingestPromoXml(xml:string, fileName:string){
+  const chainId = xmlText(xml, "ChainId") || (fileName.match(/(\d{13})/)?.[1] ?? "");
+  const storeId = xmlText(xml, "StoreId") || (fileName.match(/\d{13}-(\d+)/)?.[1] ?? "");
+  const store = getOrCreateFeedStore(chainId, storeId);
+  if (!store) return 0;
+  store.promos = xmlBlocks(xml, "Promotion").map(b => ({
+    promotion_id: xmlText(b, "PromotionId"),
+    description: xmlText(b, "PromotionDescription"),
+    start: xmlText(b, "PromotionStartDate") || null,
+    end: xmlText(b, "PromotionEndDate") || null,
+    min_qty: xmlNum(b, "MinQty"),
+    discounted_price: xmlNum(b, "DiscountedPrice"),
+    club_only: (()=>{ const ids = xmlBlocks(b, "ClubId").map(x => cleanText(x)); return ids.length > 0 && !ids.includes("0"); })(),
+    item_codes: xmlBlocks(b, "Item").map(i => xmlText(i, "ItemCode")).filter(Boolean)
+  }));
+  return store.promos.length;
+}
+
+function ingestStoresXml(xml:string){
+  const chainId = xmlText(xml, "ChainId") || xmlText(xml, "CHAINID");
+  let n = 0;
+  for (const b of xmlBlocks(xml, "Store")){
+    const store = getOrCreateFeedStore(xmlText(b, "ChainId") || chainId, xmlText(b, "StoreId"));
+    if (!store) continue;
+    store.name = xmlText(b, "StoreName");
+    store.address = xmlText(b, "Address");
+    store.city = xmlText(b, "City");
+    n++;
+  }
+  return n;
+}
+
+async function readFeedFile(path:string){
+  const bytes = await Deno.readFile(path);
+  const gz = bytes[0] === 0x1f && bytes[1] === 0x8b;
+  if (!gz) return new TextDecoder().decode(bytes);
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream("gzip"));
+  return await new Response(stream).text();
+}
+
+async function loadFeedsFromDir(id:string, dir:string){
+  FEED_STORES.clear();
+  Object.assign(FEED_STATS, { files: 0, failed: 0, items: 0, promos: 0, loaded_at: null });
+  const files: string[] = [];
+  for await (const e of Deno.readDir(dir)) if (e.isFile && /\.(xml|gz)$/i.test(e.name)) files.push(e.name);
+  // Stores first so branch names exist; promos after prices
+  const order = (n:string)=> /^stores/i.test(n) ? 0 : /^price/i.test(n) ? 1 : 2;
+  files.sort((a,b)=> order(a) - order(b) || a.localeCompare(b));
+
+  for (const name of files){
+    try{
+      const xml = await readFeedFile(`${dir}/${name}`);
+      if (/^stores/i.test(name)) ingestStoresXml(xml);
+      else if (/^price/i.test(name)) FEED_STATS.items += ingestPriceXml(xml, name);
+      else if (/^promo/i.test(name)) FEED_STATS.promos += ingestPromoXml(xml, name);
+      else continue;
+      FEED_STATS.files++;
+    } catch(e){
+      FEED_STATS.failed++;
+      err(id, `feed file failed: ${name}`, String(e));
+    }
+  }
+  FEED_STATS.loaded_at = new Date().toISOString();
+  info(id, "feeds loaded", { dir, stores: FEED_STORES.size, ...FEED_STATS });
+}
+
+// Feed sync: each enabled chain's feed_urls are index pages linking its files. Only names carrying
+// the chain's own chain_id are taken, the newest per kind and branch (Stores has no branch), and
+// saved under FEEDS_DIR for loadFeedsFromDir. Portals behind a login list no files and are logged.
+// Files are streamed to disk under a name built from the parsed fields (never the remote one), up
+// to FEED_MAX_BYTES each; a new file replaces the older ones of its kind and branch.
+const FEED_FILE_RE = /^(stores|pricefull|promofull)(\d{13})(?:-(\d{1,4}))?-(\d{8,14})[\w.-]*\.(?:xml|gz)$/i;
+const FEED_SYNC_MAX_FILES = 400;        // per chain
+const FEED_FETCH_TIMEOUT_MS = 60_000;
+const FEED_MAX_BYTES = 200 * 1024 * 1024;
+
+function feedFileLinks(html:string, base:string, chainId:string): { name:string; url:string }[] {
+  const newest = new Map<string, { name:string; url:string; ts:string }>();
+  for (const m of html.matchAll(/href\s*=\s*["']([^"']+)["']/gi)){
+    let u: URL, name: string;
+    try { u = new URL(decodeHtmlEntities(m[1]), base); name = decodeURIComponent(u.pathname.split("/").pop() ?? ""); } catch { continue; }
+    const f = FEED_FILE_RE.exec(name);
+    if (!f || f[2] !== chainId || !/^https?:$/.test(u.protocol)) continue;
+    const key = `${f[1].toLowerCase()}:${f[3] ?? ""}`;
+    if ((newest.get(key)?.ts ?? "") < f[4]) newest.set(key, { name, url: u.toString(), ts: f[4] });
+  }
+  return [...newest.values()].sort((a,b)=> a.name.localeCompare(b.name)).slice(0, FEED_SYNC_MAX_FILES).map(({ name, url })=> ({ name, url }));
+}
+
+// Local name and kind/chain/branch key of a listed feed file
+function feedFileName(name:string){
+  const f = FEED_FILE_RE.exec(name);
+  if (!f) return null;
+  const key = `${f[1]}${f[2]}${f[3] != null ? `-${f[3]}` : ""}`;
+  return { name: `${key}-${f[4]}.${/\.gz$/i.test(name) ? "gz" : "xml"}`, key: key.toLowerCase() };
+}
+
+// Written to `${path}.part` and renamed once complete, so loadFeedsFromDir never reads a partial file.
+// The timeout covers the body too.
+async function downloadFeedFile(url:string, path:string, maxBytes = FEED_MAX_BYTES){
+  const res = await fetch(url, { redirect:"follow", headers:{"user-agent":UA}, signal: AbortSignal.timeout(FEED_FETCH_TIMEOUT_MS) });
+  if (!res.ok || !res.body){ await res.body?.cancel(); throw new Error(`HTTP ${res.status}`); }
+  if (Number(res.headers.get("content-length") || 0) > maxBytes){ await res.body.cancel(); throw new Error(`larger than ${maxBytes} bytes`); }
+  const part = `${path}.part`;
+  let bytes = 0;
+  try{
+    const file = await Deno.open(part, { write: true, create: true, truncate: true });
+    await res.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, ctl){
+        bytes += chunk.length;
+        if (bytes > maxBytes) throw new Error(`larger than ${maxBytes} bytes`);
+        ctl.enqueue(chunk);
+      }
+    })).pipeTo(file.writable);
+    await Deno.rename(part, path);
+  } catch(e){
+    await Deno.remove(part).catch(()=> {});
+    throw e;
+  }
+  return bytes;
+}
+
+// Older files of the same kind and branch as `keep`
+async function pruneFeedFiles(dir:string, keep:string){
+  const key = feedFileName(keep)?.key;
+  let removed = 0;
+  for await (const e of Deno.readDir(dir)){
+    if (!e.isFile || e.name === keep || feedFileName(e.name)?.key !== key) continue;
+    await Deno.remove(`${dir}/${e.name}`);
+    removed++;
+  }
+  return removed;
+}
+
+async function syncFeeds(id:string, dir:string){
+  const out: Record<string, { files:number; failed:number }> = {};
+  for (const r of enabledRetailers()){
+    const stat = out[r.id] = { files: 0, failed: 0 };
+    for (const index of r.feed_urls){
+      try{
+        const res = await fetchWithTimeout(index, { redirect:"follow", headers:{"user-agent":UA} }, FETCH_TIMEOUT_MS);
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const links = feedFileLinks(await res.text(), res.url || index, r.chain_id);
+        if (!links.length) info(id, "feed index lists no files", { retailer: r.id, url: index });
+        for (const f of links){
+          try{
+            const local = feedFileName(f.name)!;
+            await downloadFeedFile(f.url, `${dir}/${local.name}`);
+            await pruneFeedFiles(dir, local.name);
+            stat.files++;
+          } catch(e){ stat.failed++; err(id, `feed download failed: ${f.name}`, String(e)); }
+        }
+      } catch(e){ stat.failed++; err(id, `feed index failed: ${r.id}`, { url: index, error: String(e) }); }
+    }
+  }
+  info(id, "feeds synced", out);
+  return out;
+}
+
+function tokens(s:string){
+  return normalizeSpaces(s.toLowerCase().replace(/[^\p{L}\p{N}.]+/gu, " ")).split(" ").filter(t => t.length > 1);
+}
+function tokenOverlap(needle:string, hay:string){
+  const toks = tokens(needle);
+  if (!toks.length) return 0;
+  const h = hay.toLowerCase();
+  return toks.filter(t => h.includes(t)).length / toks.length;
+}
+
+// Places branch -> the chain's store (and so its store code), by store name/address/city tokens
+function matchFeedStore(b:Branch): FeedStore | null {
+  const hay = `${b.branch_name} ${b.address}`;
+  let best: FeedStore | null = null; let bestScore = 0;
+  for (const s of FEED_STORES.values()){
+    if (s.chain !== b.chain) continue;
+    const score = Math.max(tokenOverlap(`${s.name}`, hay), tokenOverlap(`${s.address} ${s.city}`, hay));
+    if (score > bestScore){ best = s; bestScore = score; }
+  }
+  return bestScore >= 0.5 ? best : null;
+}
+
+// The branch's own priced feed store, via its resolved store code
+function feedStoreForBranch(b:Branch): FeedStore | null {
+  const chainId = retailerByName(b.chain)?.chain_id;
+  const s = b.store_code !== undefined
+    ? (b.store_code && chainId ? FEED_STORES.get(feedKey(chainId, b.store_code)) ?? null : null)
+    : matchFeedStore(b);
+  return s?.items.size ? s : null;
+}
+
+// Best-stocked priced store of the same chain in the branch's city, for branches without their own feed
+function regionalFeedStore(b:Branch): FeedStore | null {
+  let best: FeedStore | null = null;
+  for (const s of FEED_STORES.values()){
+    if (s.chain !== b.chain || !s.items.size || !s.city || !b.address.includes(s.city)) continue;
+    if (!best || s.items.size > best.items.size) best = s;
+  }
+  return best;
+}
+
+function bestFeedItem(store:FeedStore, text:string){
+  let best: FeedItem | null = null; let bestScore = 0;
+  for (const it of store.items.values()){
+    const score = tokenOverlap(text, `${it.name} ${it.manufacturer ?? ""} ${it.quantity ?? ""}`);
+    if (score > bestScore || (score === bestScore && best && it.price < best.price)){ best = it; bestScore = score; }
+  }
+  return bestScore >= FEED_MATCH_MIN ? { item: best!, score: bestScore } : null;
+}
+
+function priceStoreFromFeed(b:Branch, store:FeedStore, lines:ListItem[], clubs:string[] = [], scope:PriceScope = "branch"){
+  const basket: BasketLine[] = [];
+  const wants: ListItem[] = [];
+  for (const line of lines){
+    const hit = bestFeedItem(store, [line.name, line.size != null ? fmtNum(line.size) : ""].join(" "));
+    if (!hit) continue;
+    const it = hit.item;
+    const promos = store.promos.filter(p => p.item_codes.includes(it.item_code));
+    basket.push({
+      name: it.name,
+      brand: it.manufacturer,
+      quantity: line.quantity,
+      // Feed Quantity is the whole package; show per-item size so size × pack_qty holds
+      size: it.quantity != null ? `${fmtNum(it.pack_qty && it.pack_qty > 1 ? it.quantity / it.pack_qty : it.quantity)} ${it.unit ?? ""}`.trim() : null,
+      pack_qty: it.pack_qty,
+      unit: it.unit,
+      unit_price: it.price,
+      ppu: it.unit_price,
+      line_total: round2(it.price * line.quantity),
+      product_url: "",
+      source_domain: "feed",
+      source_title: `${store.chain} ${store.name}`.trim(),
+      observed_price_text: `₪${it.price.toFixed(2)}`,
+      observed_at: it.updated_at,
+      in_stock: true,
+      match_confidence: Math.round(hit.score * 100) / 100,
+      list_index: lines.indexOf(line),
+      substitution: false,
+      notes: promos.length ? `מבצע: ${promos.map(p => p.description).filter(Boolean).join(" | ")}` : null,
+      promotions: promos.map(promotionFromFeed).filter((p): p is Promotion => !!p),
+      barcode: it.item_code,
+      price_scope: scope,
+      verification: {
+        domain_ok: true, http_status: 200, price_extracted: it.price, price_source: "feed",
+        found_shekel: false, price_matches: true, name_match: hit.score, notes: "OK"
+      }
+    });
+    wants.push(line);
+  }
+  const coverage = lines.length ? basket.length / lines.length : 0;
+  const missing_items = lines.filter(l => !wants.includes(l)).map(l => l.raw);
+  const out: StoreResult = {
+    rank: 0,
+    store_name: b.chain,
+    branch_id: b.branch_id,
+    branch_name: b.branch_name,
+    address: b.address,
+    branch_url: b.branch_url,
+    distance_km: b.distance_km,
+    travel_mode: b.travel_mode,
+    travel_minutes: b.travel_minutes,
+    travel_km: b.travel_km,
+    currency: "₪",
+    total_price: null,
+    coverage,
+    partial: coverage < 1,
+    missing_items,
+    notes: scope === "branch" ? `מחירון רשמי (סניף ${store.store_id})` : `מחירון אזורי (סניף ${store.store_id}, ${store.city})`,
+    basket,
+    match_overall: basket.length ? basket.reduce((s, l) => s + l.match_confidence, 0) / basket.length : 0,
+    source: "feed",
+    feed_store_id: store.store_id,
+    store_code: b.store_code ?? null,
+    store_verification: {
+      approved_branch: true, verified_items: basket.length, total_items: lines.length,
+      coverage_ratio: coverage, store_verified: coverage >= COVERAGE_THRESHOLD, issues: []
+    }
+  };
+  applyStorePromotions(out, clubs);
+  normalizeStore(out, wants);
+  summarizePriceScope(out);
+  return out;
+}
+
+// Returns feed-priced stores, or null when no branch is fully covered by the feeds. Stores the
+// feeds only partly cover are kept, marked `partial` with their `missing_items`; rankStores puts
+// them after every full basket, since their total leaves those items out.
+function priceBasketFromFeeds(branches:Branch[], lines:ListItem[], clubs:string[] = []){
+  if (!FEED_STORES.size || !lines.length) return null;
+  const results: StoreResult[] = [];
+  for (const b of branches){
+    const own = feedStoreForBranch(b);
+    const store = own ?? regionalFeedStore(b);
+    if (store) results.push(priceStoreFromFeed(b, store, lines, clubs, own ? "branch" : "region"));
+  }
+  return results.some(r => r.coverage === 1) ? results : null;
+}
+
+// ===== Price scope =====
+// Where an observed price holds: "branch" (that branch's own feed), "region" (a feed store of the
+// same chain in the branch's city), "online" (the chain's delivery site, priced for its online zone)
+// or "chain" (a chain-wide claim no page confirmed). Branch and region feed prices replace web
+// prices for the same product (same barcode), and ranking surcharges baskets by how little of them
+// is branch-priced.
+type PriceScope = "branch" | "region" | "online" | "chain";
+const PRICE_SCOPES: PriceScope[] = ["branch", "region", "online", "chain"];
+const SCOPE_RELIABILITY: Record<PriceScope, number> = { branch: 1, region: 0.8, online: 0.5, chain: 0.3 };
+// Lines per scope, the branch-priced share of the basket and its amount-weighted reliability
+type ScopeSummary = Record<PriceScope, number> & { branch_share: number; reliability: number; primary: PriceScope | null };
+
+function webPriceScope(line:BasketLine): PriceScope {
+  const v = line.verification;
+  return v?.domain_ok && v.http_status === 200 && v.price_source !== "none" ? "online" : "chain";
+}
+
+// Feed item for a web line: only the same barcode (the page's, over the model's claim). A name
+// match can be another size or brand, and its price would replace the one the page was verified at.
+function feedItemForLine(store:FeedStore, line:BasketLine): FeedItem | null {
+  const code = line.verification?.barcode || line.barcode;
+  return code ? store.items.get(String(code)) ?? null : null;
+}
+
+// Runs before promotions and normalization, which recompute totals from unit_price
+function scopeStorePrices(store:StoreResult, b:Branch){
+  const own = feedStoreForBranch(b);
+  const feed = own ?? regionalFeedStore(b);
+  for (const line of (store.basket || [])){
+    line.price_scope = line.source_domain === "feed" ? "branch" : webPriceScope(line);
+    if (!feed || line.source_domain === "feed") continue;
+    const fi = feedItemForLine(feed, line);
+    if (!fi) continue;
+    line.online_unit_price = typeof line.unit_price === "number" ? line.unit_price : null;
+    line.unit_price = fi.price;
+    line.line_total = round2(fi.price * (typeof line.quantity === "number" && line.quantity > 0 ? line.quantity : 1));
+    delete line.ppu;   // the model's ppu was for the online price
+    line.price_scope = own ? "branch" : "region";
+    line.scope_source = { feed_store_id: feed.store_id, item_code: fi.item_code, observed_at: fi.updated_at };
+  }
+  store.store_code = b.store_code ?? null;
+}
+
+function summarizePriceScope(store:StoreResult): ScopeSummary {
+  const lines = Array.isArray(store.basket) ? store.basket : [];
+  const counts = Object.fromEntries(PRICE_SCOPES.map(s => [s, 0])) as Record<PriceScope, number>;
+  let amount = 0, weighted = 0, branchAmount = 0;
+  for (const l of lines){
+    const s: PriceScope = l.price_scope && PRICE_SCOPES.includes(l.price_scope) ? l.price_scope : "chain";
+    const a = typeof l.line_total === "number" ? l.line_total : 0;
+    counts[s]++;
+    amount += a; weighted += a * SCOPE_RELIABILITY[s];
+    if (s === "branch") branchAmount += a;
+  }
+  const out: ScopeSummary = {
+    ...counts,
+    branch_share: amount ? round2(branchAmount / amount) : 0,
+    reliability: amount ? round2(weighted / amount) : 0,
+    primary: lines.length ? PRICE_SCOPES.reduce((a, s)=> counts[s] > counts[a] ? s : a, "chain" as PriceScope) : null
+  };
+  store.price_scope = out;
+  return out;
+}
+
+// ===== System Prompt =====
+const PROMPT_SYSTEM = `
+You are a price-comparison agent for Israeli groceries.
+
+HARD POLICY (DO NOT VIOLATE):
+- Do NOT fabricate prices or branches. Use ONLY information found now on the public web.
+- Branches MUST be selected ONLY from APPROVED_BRANCHES JSON (branch_id required). If none match—return empty results.
+- Prices MUST come ONLY from approved retailer domains in ALLOWED_DOMAINS. Each line MUST include product_url AND observed_price_text containing "₪", or JSON-LD with priceCurrency "ILS".
+- unit_price is the regular shelf price. Put any deal or club-only price exactly as shown in promo_text (e.g. "2 ב-₪20", "השני ב-50%", "לחברי מועדון 9.90"), else null.
+- If an exact pack/size is unavailable, return a close substitute and set substitution=true; compute ppu (price per unit) and explain in notes. If still unknown, drop the line.
+- Never output free text; finish by calling submit_results once.
+
+TOOLS:
+- web_search: issue focused bilingual queries with brand + size + pack and "₪", using site filters from ALLOWED_DOMAINS (e.g., site:shufersal.co.il).
+`.trim();
+
+// ===== Function Tool Schema (submit_results) =====
+const SUBMIT_RESULTS_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["status","results"],
+  properties: {
+    status: { type:"string", enum:["ok"] },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: [
+          "rank","store_name","branch_id","branch_name","address","branch_url",
+          "distance_km","currency","total_price","coverage","notes",
+          "basket","match_overall"
+        ],
+        properties: {
+          rank: { type:"integer" },
+          store_name: { type:"string" },
+          branch_id: { type:"string" },
+          branch_name: { type:"string" },
+          address: { type:"string" },
+          branch_url: { type:"string" },
+          distance_km: { type:"number" },
+          currency: { type:"string" },
+          total_price: { type:"number" },
+          coverage: { type:"number", minimum:0, maximum:1 },
+          notes: { type:["string","null"] },
+          basket: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              additionalProperties: false,
+              required: [
+                "name","brand","quantity","size","pack_qty","unit",
+                "unit_price","ppu","line_total",
+                "product_url","source_domain","source_title",
+                "observed_price_text","observed_at","in_stock",
+                "match_confidence","substitution","promo_text","kashrut","allergens","notes"
+              ],
+              properties: {
+                name: { type:"string" },
+                brand: { type:["string","null"] },
+                quantity: { type:"number" },
+                size: { type:["string","null"] },
+                pack_qty: { type:["number","null"] },
+                unit: { type:["string","null"] },
+                unit_price: { type:"number" },
+                ppu: { type:["number","null"] },
+                line_total: { type:"number" },
+                product_url: { type:"string" },
+                source_domain: { type:"string" },
+                source_title: { type:["string","null"] },
+                observed_price_text: { type:["string","null"] },
+                observed_at: { type:["string","null"] },
+                in_stock: { type:"boolean" },
+                match_confidence: { type:"number", minimum:0, maximum:1 },
+                substitution: { type:"boolean" },
+                promo_text: { type:["string","null"] },
+                kashrut: { type:["string","null"] },
+                allergens: { type:["array","null"], items: { type:"string" } },
+                notes: { type:["string","null"] }
+              }
+            }
+          },
+          match_overall: { type:"number", minimum:0, maximum:1 }
+        }
+      }
+    }
+  }
+} as const;
+
+// A store and its basket as submitted (SUBMIT_RESULTS_SCHEMA), plus what verification, pricing and
+// ranking add. The schema is not a guarantee: code reading a model field still checks its type.
+type BasketLine = {
+  name: string;
+  brand: string | null;
+  quantity: number;
+  size: string | null;
+  pack_qty: number | null;
+  unit: string | null;
+  unit_price: number | null;
+  ppu?: number | null;
+  line_total: number | null;
+  product_url: string;
+  source_domain: string;
+  source_title: string | null;
+  observed_price_text: string | null;
+  observed_at: string | null;
+  in_stock: boolean;
+  match_confidence: number;
+  substitution: boolean;
+  promo_text?: string | null;
+  kashrut?: string | null;
+  allergens?: string[] | null;
+  notes: string | null;
+  barcode?: string | null;
+  list_index?: number | null;
+  verification?: Proof;
+  evidence_id?: string | null;
+  promotions?: Promotion[];
+  regular_price?: number;
+  pricing?: LinePricing | null;
+  normalization?: LineNormalization;
+  price_scope?: PriceScope;
+  online_unit_price?: number | null;
+  scope_source?: { feed_store_id: string; item_code: string; observed_at: string | null };
+  product_id?: string;
+  constraint_violation?: string;
+  repair?: { round: number; reason: string; replaced_url: string | null };
+};
+
+type StoreResult = {
+  rank: number;
+  store_name: string;
+  branch_id: string;
+  branch_name: string;
+  address: string;
+  branch_url: string;
+  distance_km: number;
+  currency: string;
+  total_price: number | null;
+  coverage: number;
+  notes: string | null;
+  basket: BasketLine[];
+  match_overall: number;
+  source?: "feed" | "web";
+  partial?: boolean;
+  missing_items?: string[];
+  feed_store_id?: string;
+  store_code?: string | null;
+  travel_mode?: TravelMode;
+  travel_minutes?: number;
+  travel_km?: number;
+  travel_cost?: number | null;
+  combined_total?: number | null;
+  scope_penalty?: number;
+  promo_summary?: PromoSummary;
+  normalized_total?: number;
+  price_check?: PriceCheck;
+  price_scope?: ScopeSummary;
+  store_verification?: StoreVerification;
+  rejected_lines?: BasketLine[];
+  fulfillment?: Fulfillment;
+  totals?: CheckoutTotals;
+  job_chunks?: number[];
+};
+
+// ===== LLM providers (fallback chain + usage accounting) =====
+// LLM_PROVIDERS is tried in order until one returns submit_results:
+//   openai  Responses API with web_search (OPENAI_MODEL)
+//   local   any OpenAI-compatible /chat/completions endpoint (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL);
+//           it cannot browse, so its product URLs stand or fall on verification like the rest
+type LlmUsage = { input_tokens: number; output_tokens: number; web_search_calls: number; cost_usd: number };
+// parsed is submit_results' arguments as the model sent them: callers check the shape
+type LlmResult = { parsed: { results?: unknown } | null; raw: unknown; request_id: string | null; provider: string; model: string; usage: LlmUsage };
+type LlmAttempt = { provider: string; model: string; ok: boolean; ms: number; status?: number; error?: string };
+interface LlmProvider {
+  name: string;
+  model: string;
+  submitResults(systemPrompt:string, userPrompt:string, id:string): Promise<LlmResult>;
+}
+
+// USD per 1M tokens; LLM_PRICES adds or overrides models (unknown models cost 0)
+const LLM_PRICES: Record<string, { input:number; output:number }> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  ...(()=>{ try{ return JSON.parse(LLM_PRICES_JSON || "{}"); } catch { return {}; } })()
+};
+const LLM_WEB_SEARCH_USD = 0.01;   // per web_search tool call
+
+function llmUsage(model:string, input_tokens:number, output_tokens:number, web_search_calls = 0): LlmUsage {
+  const p = LLM_PRICES[model] ?? LLM_PRICES[model.replace(/-\d{4}-\d{2}-\d{2}$/, "")] ?? { input: 0, output: 0 };
+  const cost = (input_tokens * p.input + output_tokens * p.output) / 1e6 + web_search_calls * LLM_WEB_SEARCH_USD;
+  return { input_tokens, output_tokens, web_search_calls, cost_usd: Math.round(cost * 1e6) / 1e6 };
+}
+
+// The parts of the Responses API and chat-completions replies we read
+type ResponsesReply = {
+  output?: ({ type?: string; name?: string; arguments?: unknown; content?: unknown } | null)[];
+  output_text?: unknown;
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: unknown;
+};
+type ChatReply = {
+  choices?: { message?: { content?: unknown; tool_calls?: { function?: { name?: string; arguments?: string } }[] } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+  error?: unknown;
+};
+
+function openaiResponsesLlm(): LlmProvider {
+  return {
+    name: "openai",
+    model: OPENAI_MODEL,
+    async submitResults(systemPrompt, userPrompt){
+      if (!OPENAI_KEY && PROVIDERS.mode === "live") throw new HttpError(500, "Missing OPENAI_API_KEY");
+
+      const body = {
+        model: OPENAI_MODEL,
+        instructions: systemPrompt,
+        input: userPrompt,
+        tools: [
+          { type: "web_search" },
+          {
+            type: "function",
+            name: "submit_results",
+            description: "Return final structured comparison results. MUST be called exactly once at the end.",
+            parameters: SUBMIT_RESULTS_SCHEMA
+          }
+        ],
+        tool_choice: "auto",
+        temperature: Number.isFinite(OPENAI_TEMP) ? OPENAI_TEMP : 0,
+        max_output_tokens: 2200
+      };
+
+      return await retry(async ()=>{
+        const r = await PROVIDERS.openai.responses(body);
+        const xrid = r.headers.get("x-request-id") || r.headers.get("openai-request-id") || null;
+        let parsed: LlmResult["parsed"] = null; let raw: ResponsesReply | string | null = null;
+        try{ raw = await r.json(); } catch{ raw = await r.text(); }
+        const reply = typeof raw === "object" ? raw : null;
+        if (!r.ok) throw new HttpError(r.status, `OpenAI ${r.status}`, { error: (reply?.error ?? raw ?? null), full_response: raw ?? null, x_request_id: xrid });
+
+        const outputArr = Array.isArray(reply?.output) ? reply.output : [];
+        const usage = llmUsage(OPENAI_MODEL, reply?.usage?.input_tokens ?? 0, reply?.usage?.output_tokens ?? 0, outputArr.filter(p => p?.type === "web_search_call").length);
+        const done = (parsed:LlmResult["parsed"]): LlmResult => ({ parsed, raw, request_id: xrid, provider: "openai", model: OPENAI_MODEL, usage });
+        const fnCall = outputArr.find(p => p?.type==="function_call" && p?.name==="submit_results");
+        if (!fnCall) {
+          const text = (typeof reply?.output_text === "string" && reply.output_text) || outputArr.map(p => (typeof p?.content === "string" ? p.content : "")).join("\n") || "";
+          const tryParsed = extractJson(text);
+          if (tryParsed) return done(tryParsed);
+          throw new HttpError(400, "Model did not return a submit_results tool call", { output_text_excerpt: text ? text.slice(0, SAFE_DEBUG_MAX) : "", raw_excerpt: JSON.stringify(raw ?? "").slice(0, SAFE_DEBUG_MAX), x_request_id: xrid });
+        }
+
+        try{
+          parsed = typeof fnCall.arguments === "string" ? JSON.parse(fnCall.arguments) : fnCall.arguments;
+        } catch {
+          throw new HttpError(400, "Failed to parse submit_results.arguments", { arguments_excerpt: String(fnCall?.arguments ?? "").slice(0, SAFE_DEBUG_MAX), x_request_id: xrid });
+        }
+        return done(parsed);
+      }, 2); // light retry
+    }
+  };
+}
+
+function openaiChatLlm(name:string, base:string, model:string, key:string): LlmProvider {
+  return {
+    name,
+    model,
+    async submitResults(systemPrompt, userPrompt){
+      const body = {
+        model,
+        messages: [{ role: "system", content: systemPrompt }, { role: "user", content: userPrompt }],
+        tools: [{ type: "function", function: { name: "submit_results", description: "Return final structured comparison results.", parameters: SUBMIT_RESULTS_SCHEMA } }],
+        tool_choice: { type: "function", function: { name: "submit_results" } },
+        temperature: Number.isFinite(OPENAI_TEMP) ? OPENAI_TEMP : 0,
+        max_tokens: 2200
+      };
+      const r = await PROVIDERS.openai.chat(base, key, body);
+      const xrid = r.headers.get("x-request-id") || null;
+      let raw: ChatReply | null = null;
+      try{ raw = await r.json(); } catch{ raw = null; }
+      if (!r.ok) throw new HttpError(r.status, `${name} ${r.status}`, { error: raw?.error ?? raw, x_request_id: xrid });
+
+      const msg = raw?.choices?.[0]?.message;
+      const call = (Array.isArray(msg?.tool_calls) ? msg.tool_calls : []).find(t => t?.function?.name === "submit_results");
+      let parsed: LlmResult["parsed"] = null;
+      try{ parsed = call ? JSON.parse(call.function?.arguments ?? "") : extractJson(String(msg?.content ?? "")); } catch{ parsed = null; }
+      if (!parsed) throw new HttpError(400, `${name} did not return a submit_results tool call`, { content_excerpt: String(msg?.content ?? "").slice(0, SAFE_DEBUG_MAX), x_request_id: xrid });
+      return { parsed, raw, request_id: xrid, provider: name, model, usage: llmUsage(model, raw?.usage?.prompt_tokens ?? 0, raw?.usage?.completion_tokens ?? 0) };
+    }
+  };
+}
+
+function llmProvider(name:string): LlmProvider | null {
+  if (name === "openai") return openaiResponsesLlm();
+  if (name === "local") return openaiChatLlm("local", LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL, LOCAL_LLM_API_KEY);
+  err("startup", `unknown LLM provider "${name}" ignored`);
+  return null;
+}
+const LLM_CHAIN: LlmProvider[] = (()=>{
+  const chain = LLM_PROVIDERS.map(llmProvider).filter((p): p is LlmProvider => !!p);
+  return chain.length ? chain : [openaiResponsesLlm()];
+})();
+
+// Daily totals: ["llm_usage", YYYY-MM-DD, provider, model] -> LlmUsageTotals
+type LlmUsageTotals = { requests: number; failures: number; input_tokens: number; output_tokens: number; web_search_calls: number; cost_usd: number };
+
+async function recordLlmUsage(id:string, provider:string, model:string, usage:LlmUsage | null){
+  const key = ["llm_usage", new Date().toISOString().slice(0, 10), provider, model];
+  try{
+    for (let i = 0; i < 5; i++){
+      const cur = await kv.get<LlmUsageTotals>(key);
+      const t = cur.value ?? { requests: 0, failures: 0, input_tokens: 0, output_tokens: 0, web_search_calls: 0, cost_usd: 0 };
+      const next: LlmUsageTotals = usage ? {
+        ...t,
+        requests: t.requests + 1,
+        input_tokens: t.input_tokens + usage.input_tokens,
+        output_tokens: t.output_tokens + usage.output_tokens,
+        web_search_calls: t.web_search_calls + usage.web_search_calls,
+        cost_usd: Math.round((t.cost_usd + usage.cost_usd) * 1e6) / 1e6
+      } : { ...t, failures: t.failures + 1 };
+      if ((await kv.atomic().check(cur).set(key, next).commit()).ok) return;
+    }
+  } catch(e){
+    err(id, "usage write failed", String(e));
+  }
+}
+
+// Model calls (callLlm passes) per request id, until taken by withLlmBudget
+const LLM_CALLS = new Map<string, number>();
+function takeLlmCalls(id:string){
+  const n = LLM_CALLS.get(id) ?? 0;
+  LLM_CALLS.delete(id);
+  return n;
+}
+
+// Tries each provider in LLM_CHAIN; an error or a missing submit_results falls through to the next
+async function callLlm(systemPrompt:string, userPrompt:string, id:string){
+  LLM_CALLS.set(id, (LLM_CALLS.get(id) ?? 0) + 1);
+  const attempts: LlmAttempt[] = [];
+  let last: unknown = null;
+  for (const p of LLM_CHAIN){
+    const t0 = Date.now();
+    try{
+      const res = await span(id, "llm", ()=> p.submitResults(systemPrompt, userPrompt, id), { provider: p.name, model: p.model });
+      attempts.push({ provider: p.name, model: p.model, ok: true, ms: Date.now() - t0 });
+      METRICS.llmCalls.inc({ provider: p.name, model: p.model, outcome: "ok" });
+      await recordLlmUsage(id, res.provider, res.model, res.usage);
+      return { ...res, attempts };
+    } catch(e){
+      last = e;
+      const status = e instanceof HttpError ? e.status : undefined;
+      const message = e instanceof Error ? e.message : String(e);
+      attempts.push({ provider: p.name, model: p.model, ok: false, ms: Date.now() - t0, status: status ?? 500, error: message || String(e) });
+      err(id, `LLM provider ${p.name} failed`, { status, message });
+      METRICS.llmCalls.inc({ provider: p.name, model: p.model, outcome: "error" });
+      METRICS.llmErrors.inc({ provider: p.name, status: status ?? 500 });
+      await recordLlmUsage(id, p.name, p.model, null);
+    }
+  }
+  const lastHttp = last instanceof HttpError ? last : null;
+  throw new HttpError(lastHttp?.status ?? 502, (last instanceof Error && last.message) || "All LLM providers failed", { ...(lastHttp?.payload as object ?? {}), attempts });
+}
+
+// ===== Verification (server-side) =====
+function hostOK(urlStr:string){
+  try { const u = new URL(urlStr); if (!/^https?:$/.test(u.protocol)) return false; return allowedDomains().includes(u.hostname.replace(/^www\./,"")); }
+  catch { return false; }
+}
+
+function extractPriceFromHtml(htmlRaw:string){
+  const html = decodeHtmlEntities(htmlRaw);
   const re = /₪\s*([\d.,]+)|([\d.,]+)\s*₪/g;
   let num: number | null = null; let m: RegExpExecArray | null;
   while ((m = re.exec(html))){
-    const s = (m[1] || m[2] || "").trim();
-    const v = parseNumberLocaleish(s);
-    if (!isNaN(v)) { num = v; break; }
+    const s = (m[1] || m[2] || "").trim();
+    const v = parseNumberLocaleish(s);
+    if (!isNaN(v)) { num = v; break; }
+  }
+  if (num != null) return { value: num, source: "shekel-sign" as const };
+
+  const ilc = /"priceCurrency"\s*:\s*"(?:ILS|NIS)"/i;
+  const priceField = /"price"\s*:\s*"?(?<p>[\d.]+)"?/i;
+  if (ilc.test(html)){
+    const pMatch = priceField.exec(html);
+    if (pMatch?.groups?.p) {
+      const v = Number(pMatch.groups.p);
+      if (!isNaN(v)) return { value: v, source: "json-ld" as const };
+    }
+  }
+  return { value: null as number|null, source: "none" as const };
+}
+
+// ===== Retailer adapters =====
+// One adapter per approved domain. Each reads the main product block of that site
+// (embedded JSON / markup), falling back to schema.org JSON-LD, OpenGraph/microdata
+// and finally the generic first-₪ scan.
+type PriceSource = "embedded-json" | "markup" | "json-ld" | "microdata" | "og" | "shekel-sign" | "none";
+type ProductExtract = {
+  price: number | null;
+  promo_price: number | null;
+  promo_text: string | null;
+  unit_price: number | null;       // as published by the site (its own unit, e.g. ₪ per 100 ג')
+  unit_price_text: string | null;
+  in_stock: boolean | null;
+  barcode: string | null;
+  title: string | null;
+  source: PriceSource;
+  match: string | null;            // snippet the price was read from
+};
+interface RetailerAdapter {
+  retailer: string;                // registry id; the registry maps its domains and chain name
+  extract(html:string, url:URL): ProductExtract;
+}
+type AdapterSpec = {
+  retailer: string;                // registry id
+  price_source: "embedded-json" | "markup";
+  price: RegExp[];                 // first capture group = main product price
+  promo?: RegExp[];
+  promo_text?: RegExp[];           // group 1 = promotion description ("2 ב-₪20", "לחברי מועדון")
+  unit_price?: RegExp[];           // group 1 = number, group 2 (optional) = unit text
+  out_of_stock?: RegExp[];
+  barcode?: RegExp[];
+  title?: RegExp[];
+};
+
+function firstCapture(html:string, res:RegExp[] = []): { value:string; match:string } | null {
+  for (const re of res){
+    const m = re.exec(html);
+    if (m?.[1]) return { value: m[1], match: m[0].slice(0, 200) };
+  }
+  return null;
+}
+function priceNum(s:string|number|null|undefined): number | null {
+  if (s == null) return null;
+  const v = parseNumberLocaleish(String(s));
+  return Number.isFinite(v) && v > 0 ? v : null;
+}
+
+// The schema.org Product fields read here, as pages publish them (any of them may be missing)
+type JsonLdOffer = { "@type"?: string; price?: string | number; lowPrice?: string | number; priceCurrency?: string; availability?: string };
+type JsonLdProduct = {
+  "@type"?: string | string[];
+  "@graph"?: JsonLdProduct[];
+  name?: string;
+  description?: string;
+  disclaimer?: string;
+  offers?: JsonLdOffer | JsonLdOffer[];
+  gtin13?: string | number;
+  gtin?: string | number;
+  gtin14?: string | number;
+  gtin8?: string | number;
+  additionalProperty?: { name?: string; value?: unknown } | { name?: string; value?: unknown }[];
+};
+
+function jsonLdProduct(html:string): JsonLdProduct | null {
+  const re = /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html))){
+    let j: JsonLdProduct | (JsonLdProduct | null)[] | null;
+    try { j = JSON.parse(m[1].trim()); } catch { continue; }
+    const nodes = (Array.isArray(j) ? j : [j]).flatMap(n => Array.isArray(n?.["@graph"]) ? n["@graph"] : [n]);
+    const p = nodes.find(n => (Array.isArray(n?.["@type"]) ? n["@type"] : [n?.["@type"]]).includes("Product"));
+    if (p) return p;
+  }
+  return null;
+}
+function metaContent(html:string, key:string): string | null {
+  const re = new RegExp(`<meta[^>]+(?:property|name|itemprop)=["']${key}["'][^>]*content=["']([^"']*)["']|<meta[^>]+content=["']([^"']*)["'][^>]*(?:property|name|itemprop)=["']${key}["']`, "i");
+  const m = re.exec(html);
+  return m ? (m[1] ?? m[2] ?? null) : null;
+}
+
+function genericExtract(html:string): ProductExtract {
+  const out: ProductExtract = { price:null, promo_price:null, promo_text:null, unit_price:null, unit_price_text:null, in_stock:null, barcode:null, title:null, source:"none", match:null };
+  const p = jsonLdProduct(html);
+  if (p){
+    const o = Array.isArray(p.offers) ? p.offers[0] : p.offers;
+    const offer = o?.["@type"] === "AggregateOffer" ? { ...o, price: o.lowPrice ?? o.price } : o;
+    const cur = String(offer?.priceCurrency ?? "ILS").toUpperCase();
+    const v = (cur === "ILS" || cur === "NIS") ? priceNum(offer?.price) : null;
+    if (v != null){ out.price = v; out.source = "json-ld"; out.match = `"price":${offer?.price}`; }
+    if (typeof offer?.availability === "string") out.in_stock = !/OutOfStock|SoldOut|Discontinued/i.test(offer.availability);
+    out.barcode = String(p.gtin13 ?? p.gtin ?? p.gtin14 ?? p.gtin8 ?? "") || null;
+    out.title = p.name ? cleanText(String(p.name), 200) : null;
+  }
+  if (out.price == null){
+    const v = priceNum(metaContent(html, "product:price:amount") ?? metaContent(html, "og:price:amount"));
+    if (v != null){ out.price = v; out.source = "og"; }
+  }
+  if (out.price == null){
+    const v = priceNum(metaContent(html, "price"));
+    if (v != null){ out.price = v; out.source = "microdata"; }
+  }
+  if (out.price == null){
+    const { value, source } = extractPriceFromHtml(html);
+    if (value != null){ out.price = value; out.source = source; }
+  }
+  out.title ??= (metaContent(html, "og:title") ? cleanText(metaContent(html, "og:title")!, 200) : null);
+  return out;
+}
+
+function makeAdapter(spec:AdapterSpec): RetailerAdapter {
+  return {
+    retailer: spec.retailer,
+    extract(htmlRaw:string, url:URL): ProductExtract {
+      const html = decodeHtmlEntities(htmlRaw);
+      const base = genericExtract(html);
+      const price = firstCapture(html, spec.price);
+      const promo = firstCapture(html, spec.promo);
+      const unitRe = (spec.unit_price ?? []).map(re => re.exec(html)).find(Boolean) ?? null;
+      const barcode = firstCapture(html, spec.barcode) ?? firstCapture(url.toString(), spec.barcode);
+      const title = firstCapture(html, spec.title);
+      const out: ProductExtract = { ...base };
+      // Site markup wins over JSON-LD / generic scan: it is scoped to the main product block
+      if (priceNum(price?.value) != null){
+        out.price = priceNum(price!.value);
+        out.source = spec.price_source;
+        out.match = price!.match;
+      }
+      out.promo_price = priceNum(promo?.value);
+      if (out.promo_price != null && out.price != null && out.promo_price >= out.price) out.promo_price = null;
+      const promoText = firstCapture(html, spec.promo_text);
+      out.promo_text = promoText ? cleanText(promoText.value.replace(/<[^>]+>/g, " "), 160) : null;
+      if (unitRe){
+        out.unit_price = priceNum(unitRe[1]);
+        out.unit_price_text = out.unit_price != null ? `₪${out.unit_price}${unitRe[2] ? " / " + cleanText(unitRe[2], 40) : ""}` : null;
+      }
+      if (spec.out_of_stock?.some(re => re.test(html))) out.in_stock = false;
+      else if (out.in_stock == null && out.price != null) out.in_stock = true;
+      if (barcode) out.barcode = barcode.value;
+      if (title) out.title = cleanText(title.value, 200);
+      return out;
+    }
+  };
+}
+
+// Victory, Yohananof, Tiv Taam and Osher Ad share the same retailer platform (v2/retailers API);
+// product pages embed the product JSON with branch-level prices.
+function retailerPlatformSpec(retailer:string): AdapterSpec {
+  return {
+    retailer, price_source: "embedded-json",
+    price: [/"branch"\s*:\s*\{[^{}]*?"regularPrice"\s*:\s*([\d.]+)/, /"regularPrice"\s*:\s*([\d.]+)/],
+    promo: [/"branch"\s*:\s*\{[^{}]*?"salePrice"\s*:\s*([\d.]+)/, /"salePrice"\s*:\s*([\d.]+)/],
+    promo_text: [/"specials"\s*:\s*\[\s*\{[^\]]*?"description"\s*:\s*"([^"]+)"/],
+    unit_price: [/"pricePerUnit"\s*:\s*([\d.]+)(?:[^{}]*?"unitResolution"\s*:\s*"([^"]+)")?/],
+    out_of_stock: [/"isOutOfStock"\s*:\s*true/, /אזל מהמלאי/],
+    barcode: [/"barcode"\s*:\s*"?(\d{7,14})/, /\/product\/(\d{7,14})/],
+    title: [/"localName"\s*:\s*"([^"]+)"/, /<h1[^>]*>([\s\S]*?)<\/h1>/]
+  };
+}
+
+const RETAILER_ADAPTERS: RetailerAdapter[] = [
+  makeAdapter({
+    retailer: "shufersal", price_source: "markup",
+    price: [/<div[^>]+class="[^"]*\bprice\b[^"]*"[^>]*>\s*(?:<[^>]+>\s*)*([\d.,]+)\s*(?:<[^>]+>\s*)*₪/, /data-product-price="([\d.]+)"/],
+    promo_text: [/class="[^"]*\bpromotionSection\b[^"]*"[^>]*>([\s\S]{0,300}?)<\/div>/],
+    promo: [/class="[^"]*\bpromotionSection\b[^"]*"[\s\S]{0,600}?מחיר ליחידה\s*([\d.,]+)/, /class="[^"]*\bpromotionSection\b[^"]*"[\s\S]{0,600}?([\d.,]+)\s*₪/],
+    unit_price: [/class="[^"]*\bsmallText\b[^"]*"[^>]*>\s*([\d.,]+)\s*₪\s*ל-?\s*([^<]{1,20})/],
+    out_of_stock: [/class="[^"]*\bmissing(?:Product|Item)\b/, /אזל מהמלאי|המוצר אינו זמין/],
+    barcode: [/data-product-code="P_(\d{7,14})"/, /\/p\/P_(\d{7,14})/],
+    title: [/data-product-name="([^"]+)"/, /<h1[^>]*>([\s\S]*?)<\/h1>/]
+  }),
+  makeAdapter({
+    retailer: "rami-levy", price_source: "embedded-json",
+    // Nuxt state: {"id":..,"name":"..","barcode":..,"price":{"price":7.9},"sale":[{"price":..}]}
+    price: [/"price"\s*:\s*\{\s*"price"\s*:\s*"?([\d.]+)/],
+    promo: [/"sale"\s*:\s*\[\s*\{[^\]]*?"price"\s*:\s*"?([\d.]+)/],
+    promo_text: [/"sale"\s*:\s*\[\s*\{[^\]]*?"(?:title|description)"\s*:\s*"([^"]+)"/],
+    unit_price: [/"gs"\s*:\s*\{[^{}]*?"Price_Per_Unit"\s*:\s*"?([\d.]+)(?:[^{}]*?"Unit_Of_Measure"\s*:\s*"([^"]+)")?/],
+    out_of_stock: [/"is_out_of_stock"\s*:\s*true/, /"available"\s*:\s*false/, /אזל מהמלאי/],
+    barcode: [/"barcode"\s*:\s*"?(\d{7,14})/, /[?&]item=(\d{7,14})/],
+    title: [/"name"\s*:\s*"([^"]+)"/, /<h1[^>]*>([\s\S]*?)<\/h1>/]
+  }),
+  makeAdapter(retailerPlatformSpec("victory")),
+  makeAdapter(retailerPlatformSpec("yohananof")),
+  makeAdapter(retailerPlatformSpec("tiv-taam")),
+  makeAdapter(retailerPlatformSpec("osher-ad")),
+];
+const ADAPTER_BY_RETAILER = new Map(RETAILER_ADAPTERS.map(a => [a.retailer, a]));
+
+// Through the registry, so a chain's added or renamed domains keep its adapter
+function adapterFor(urlStr:string): RetailerAdapter | null {
+  try { return ADAPTER_BY_RETAILER.get(retailerByDomain(new URL(urlStr).hostname)?.id ?? "") ?? null; }
+  catch { return null; }
+}
+
+async function fetchText(url:string){
+  return await cached("page", url, async ()=>{
+    const res = await retry(async ()=>{
+      const r = await PROVIDERS.pages.get(url);
+      return r;
+    }, 2);
+    const txt = await res.text().catch(()=> "");
+    return { status: res.status, text: txt.slice(0, 300_000), fetched_at: new Date().toISOString(), http_date: res.headers.get("date") };
+  }, (v)=> v.status === 200);
+}
+
+function approxEq(a:number,b:number,pct=0.05){
+  const d = Math.abs(a-b); return d <= Math.max(1, b*pct);
+}
+
+// What verifyItem read from a product page; feed-priced lines carry the same shape (price_source "feed")
+type Proof = {
+  domain_ok: boolean;
+  http_status: number;
+  price_extracted: number | null;
+  price_source: PriceSource | "feed";
+  found_shekel: boolean;
+  price_matches: boolean;
+  name_match: number;
+  list_item?: string | null;
+  list_name_match?: number | null;
+  notes: string;
+  adapter?: string;
+  promo_price?: number | null;
+  promo_text?: string | null;
+  site_unit_price?: number | null;
+  site_unit_price_text?: string | null;
+  in_stock?: boolean | null;
+  barcode?: string | null;
+  page_title?: string | null;
+  price_match_text?: string | null;
+  facts?: ProductFacts;
+  evidence_id?: string | null;
+};
+
+// Any line with a product_url: basket lines, repair candidates, a barcode's catalog product
+type VerifyTarget = Partial<BasketLine> & { product_url: string };
+
+async function verifyItem(it:VerifyTarget, want?:ListItem|null): Promise<Proof> {
+  const res: Proof = {
+    domain_ok:false, http_status:0, price_extracted:null, price_source:"none",
+    found_shekel:false, price_matches:false, name_match:0, list_item:want?.raw ?? null, list_name_match:null, notes:""
+  };
+
+  if (!hostOK(it.product_url)){ res.notes = "domain not allowed"; return res; }
+  res.domain_ok = true;
+
+  const page = await fetchText(it.product_url);
+  const { status, text } = page;
+  res.http_status = status;
+  if (status !== 200){ res.notes = "non-200"; return res; }
+
+  const adapter = adapterFor(it.product_url);
+  const ex = adapter ? adapter.extract(text, new URL(it.product_url)) : genericExtract(decodeHtmlEntities(text));
+  const value = ex.price;
+  res.adapter = adapter?.retailer ?? "generic";
+  res.price_extracted = value;
+  res.price_source = ex.source;
+  res.found_shekel = ex.source === "shekel-sign";
+  res.promo_price = ex.promo_price;
+  res.promo_text = ex.promo_text;
+  res.site_unit_price = ex.unit_price;
+  res.site_unit_price_text = ex.unit_price_text;
+  res.in_stock = ex.in_stock;
+  res.barcode = ex.barcode;
+  res.page_title = ex.title;
+  res.price_match_text = ex.match;
+  res.facts = productFacts(text, ex.title);
+  // Archived by archiveProof if the line ends up in a result we show
+  PROOF_PAGES.set(res, { url: it.product_url, page, ex });
+
+  // The model may quote either the regular or the promo price
+  const target = typeof it.unit_price === "number" ? it.unit_price : null;
+  if (target != null && value != null){
+    res.price_matches = approxEq(value, target, 0.05) || (ex.promo_price != null && approxEq(ex.promo_price, target, 0.05));
+  }
+  if (ex.barcode && !it.barcode) it.barcode = ex.barcode;
+  if (ex.in_stock === false) it.in_stock = false;
+
+  const needle = [it.brand, it.size, it.name].filter(Boolean).join(" ").replace(/\s+/g," ").trim();
+  if (needle){
+    // Prefer the canonical title: page text also holds related products
+    const lc = (ex.title || text).toLowerCase();
+    const toks = needle.toLowerCase().split(" ").filter(t=>t.length>1);
+    const hits = toks.filter(tok => lc.includes(tok)).length;
+    res.name_match = hits / Math.max(1, toks.length);
+  }
+  // Match against what the user asked for, not only what the model claims it found
+  if (want) res.list_name_match = tokenOverlap([want.name, want.size != null ? fmtNum(want.size) : ""].join(" "), text);
+
+  res.notes = (res.domain_ok && res.http_status===200 && res.price_source!=="none" && (res.price_matches || value==null))
+    ? "OK" : "mismatch";
+  return res;
+}
+
+function verifyResult(proof:Proof){
+  if (!proof.domain_ok) return "domain_not_allowed";
+  if (proof.http_status !== 200) return "http_error";
+  if (proof.price_source === "none") return "no_price";
+  return proof.notes === "OK" ? "ok" : "price_mismatch";
+}
+
+// Proofs of one request's lines, by line object: the repair loop and verifyStore read each page once
+type LineProofs = WeakMap<object, Proof>;
+
+async function verifyLine(id:string | undefined, proofs:LineProofs | undefined, line:VerifyTarget, want:ListItem | null, index:number): Promise<Proof> {
+  const known = proofs?.get(line);
+  if (known) return known;
+  const proof = await span(id, "verify_item", ()=> verifyItem(line, want), { index, url: line?.product_url ?? null });
+  proofs?.set(line, proof);
+  return proof;
+}
+
+type StoreVerification = {
+  approved_branch: boolean;
+  verified_items: number;
+  total_items: number;
+  coverage_ratio: number;
+  store_verified: boolean;
+  issues: string[];
+};
+
+type VerifyStoreOptions = {
+  id?: string;                 // request id, for spans
+  clubs?: string[];
+  constraints?: ConstraintProfile;
+  proofs?: LineProofs;         // lines the repair loop already verified
+  onItem?: (idx:number, it:BasketLine, proof:Proof)=> unknown;
+};
+
+async function verifyStore(store:StoreResult, approvedBranches: Map<string, Branch>, listItems: ListItem[] = [], opts: VerifyStoreOptions = {}): Promise<StoreVerification> {
+  const v: StoreVerification = { approved_branch:false, verified_items:0, total_items:0, coverage_ratio:0, store_verified:false, issues:[] };
+  if (!approvedBranches.has(store.branch_id)){ v.issues.push("branch_id not approved"); return v; }
+  v.approved_branch = true;
+
+  v.total_items = Array.isArray(store.basket) ? store.basket.length : 0;
+
+  const items = (store.basket||[]);
+  const wants = items.map((it:BasketLine)=> matchListItem(listItems, String(it?.name ?? "")));
+  items.forEach((it:BasketLine, i:number)=> { if (wants[i]) it.list_index = listItems.indexOf(wants[i]!); });
+  const proofs = await mapPool(items.map((_, i)=> i), VERIFY_CONCURRENCY, async (i:number)=> {
+    const proof = await verifyLine(opts.id, opts.proofs, items[i], wants[i], i);
+    await opts.onItem?.(i, items[i], proof);
+    return proof;
+  });
+
+  proofs.forEach((proof, idx)=>{
+    const it = items[idx];
+    it.verification = proof;
+    METRICS.verifyItems.inc({ domain: proof.domain_ok ? new URL(it.product_url).hostname.replace(/^www\./, "") : "other", result: verifyResult(proof) });
+    const why = opts.constraints ? constraintViolation(it, proof, opts.constraints, wants[idx], wants[idx] ? listItems.indexOf(wants[idx]!) : null) : null;
+    if (why){
+      it.constraint_violation = why;
+      v.issues.push(`item rejected: ${it.product_url || it.name}: ${why}`);
+      return;
+    }
+    if (proof.domain_ok && proof.http_status===200 && proof.price_source!=="none") {
+      if (typeof proof.price_extracted === "number" && typeof it.unit_price === "number") {
+        if (proof.price_matches) v.verified_items++;
+      } else {
+        v.verified_items++;
+      }
+    } else {
+      v.issues.push(`item rejected: ${it.product_url || it.name}`);
+    }
+  });
+
+  // Lines that break the profile leave the priced basket (they still count in total_items, as missing);
+  // the repair loop has already had its rounds to replace them
+  const kept = items.map((_, i)=> i).filter(i => !items[i].constraint_violation);
+  await mapPool(kept, VERIFY_CONCURRENCY, (i:number)=> archiveProof(items[i], proofs[i]));
+  if (kept.length < items.length){
+    const rejected = items.filter(it => it.constraint_violation);
+    store.rejected_lines = rejected;
+    store.basket = kept.map((i:number)=> items[i]);
+    // ...and out of the model's total, which normalizeStore checks the kept lines against
+    if (typeof store.total_price === "number"){
+      store.total_price = round2(store.total_price - rejected.reduce((t, l)=> t + (typeof l.line_total === "number" ? l.line_total : 0), 0));
+    }
+  }
+  const keptWants = kept.map((i:number)=> wants[i]);
+
+  v.coverage_ratio = v.total_items ? v.verified_items / v.total_items : 0;
+  v.store_verified = v.approved_branch && v.coverage_ratio >= COVERAGE_THRESHOLD;
+
+  const approved = approvedBranches.get(store.branch_id)!;
+  // Labelled by registry id (the model's store_name is free text)
+  if (v.total_items) METRICS.coverage.observe(v.coverage_ratio, { chain: retailerByName(approved.chain)?.id ?? "other" });
+  scopeStorePrices(store, approved);
+  applyStorePromotions(store, opts.clubs ?? []);
+  const pc = normalizeStore(store, keptWants);
+  if (!pc.total_matches) v.issues.push(`total_price recomputed: model ${pc.model_total} -> ${pc.regular_total} before promotions`);
+  if (pc.mismatched_lines) v.issues.push(`${pc.mismatched_lines} line(s) with ppu/line_total mismatch`);
+  summarizePriceScope(store);
+
+  store.address = approved.address;
+  store.branch_name = approved.branch_name;
+  store.branch_url = approved.branch_url;
+  store.distance_km = approved.distance_km;
+  store.travel_mode = approved.travel_mode;
+  store.travel_minutes = approved.travel_minutes;
+  store.travel_km = approved.travel_km;
+
+  store.store_verification = v;
+  return v;
+}
+
+// ===== Evidence archive (verified page snapshots) =====
+// The pages behind shown prices (verifyStore's final lines, barcode prices; not repair candidates
+// or alert checks) are kept gzipped as proof of the price we showed:
+//   ["evidence", id] -> EvidenceMeta, ["evidence_chunk", id, n] -> gzip bytes (KV values cap at 64 KiB)
+//   ["evidence_by_time", last_seen_at, id] -> true    (retention index)
+// id = hash(url + content hash), so an unchanged page is stored once and only its last_seen_at moves.
+// pruneEvidence drops snapshots not seen for EVIDENCE_RETENTION_DAYS (0 disables archiving).
+type EvidenceMeta = {
+  id: string;
+  url: string;
+  domain: string;
+  http_status: number;
+  http_date: string | null;      // origin's Date header
+  fetched_at: string;            // when we fetched it (may predate archiving when served from cache)
+  archived_at: string;
+  last_seen_at: string;
+  content_sha256: string;
+  bytes: number;
+  gz_bytes: number;
+  chunks: number;
+  price: number | null;
+  price_source: PriceSource;
+  location: { offset: number; length: number; match: string } | null;
+};
+const EVIDENCE_CHUNK = 60_000;
+
+// Pages verifyItem read, by proof, until archiveProof stores or drops them with the proof
+const PROOF_PAGES = new WeakMap<object, { url:string; page:{ status:number; text:string; fetched_at?:string; http_date?:string | null }; ex:ProductExtract }>();
+
+// Archiving problems never fail verification
+async function archiveProof(line:Partial<BasketLine>, proof:Proof): Promise<string | null> {
+  const src = PROOF_PAGES.get(proof);
+  if (src){
+    PROOF_PAGES.delete(proof);
+    proof.evidence_id = await archiveEvidence(src.url, src.page, src.ex).catch((e)=>{ err("evidence", "archive failed", String(e)); return null; });
+  }
+  if (proof.evidence_id) line.evidence_id = proof.evidence_id;
+  return proof.evidence_id ?? null;
+}
+
+// Where in the raw page the price was read (adapters may match on a decoded copy)
+function priceLocation(text:string, ex:ProductExtract){
+  const candidates = [ex.match, ...(ex.price != null ? [ex.price.toFixed(2), String(ex.price)] : [])];
+  for (const s of candidates){
+    if (!s) continue;
+    const offset = text.indexOf(s);
+    if (offset >= 0) return { offset, length: s.length, match: s };
+  }
+  return null;
+}
+
+async function archiveEvidence(url:string, page:{ status:number; text:string; fetched_at?:string; http_date?:string | null }, ex:ProductExtract){
+  if (EVIDENCE_RETENTION_DAYS <= 0 || page.status !== 200 || !page.text) return null;
+  const content_sha256 = await sha256Hex(page.text);
+  const id = "ev_" + (await sha256Hex(`${url}\n${content_sha256}`)).slice(0, 24);
+  const now = new Date().toISOString();
+
+  const prev = await kv.get<EvidenceMeta>(["evidence", id]);
+  if (prev.value){
+    await kv.atomic().check(prev)
+      .delete(["evidence_by_time", prev.value.last_seen_at, id])
+      .set(["evidence_by_time", now, id], true)
+      .set(["evidence", id], { ...prev.value, last_seen_at: now })
+      .commit();
+    return id;
+  }
+
+  const gz = await gzipBytes(page.text);
+  const meta: EvidenceMeta = {
+    id, url,
+    domain: new URL(url).hostname.replace(/^www\./, ""),
+    http_status: page.status,
+    http_date: page.http_date ?? null,
+    fetched_at: page.fetched_at ?? now,
+    archived_at: now,
+    last_seen_at: now,
+    content_sha256,
+    bytes: page.text.length,
+    gz_bytes: gz.length,
+    chunks: Math.max(1, Math.ceil(gz.length / EVIDENCE_CHUNK)),
+    price: ex.price,
+    price_source: ex.source,
+    location: priceLocation(page.text, ex)
+  };
+  const tx = kv.atomic().check({ key: ["evidence", id], versionstamp: null })
+    .set(["evidence", id], meta)
+    .set(["evidence_by_time", now, id], true);
+  for (let i = 0; i < meta.chunks; i++) tx.set(["evidence_chunk", id, i], gz.slice(i * EVIDENCE_CHUNK, (i + 1) * EVIDENCE_CHUNK));
+  await tx.commit();
+  return id;
+}
+
+async function loadEvidence(id:string){
+  const meta = (await kv.get<EvidenceMeta>(["evidence", id])).value;
+  if (!meta) return null;
+  const parts: Uint8Array[] = [];
+  for await (const e of kv.list<Uint8Array>({ prefix: ["evidence_chunk", id] })) parts.push(e.value);
+  const gz = new Uint8Array(parts.reduce((n, p)=> n + p.length, 0));
+  let o = 0;
+  for (const p of parts){ gz.set(p, o); o += p.length; }
+  const html = parts.length === meta.chunks ? await gunzipText(gz).catch(()=> null) : null;
+  return { meta, html, intact: html != null && await sha256Hex(html) === meta.content_sha256 };
+}
+
+async function pruneEvidence(now = Date.now()){
+  if (EVIDENCE_RETENTION_DAYS <= 0) return 0;
+  const cutoff = new Date(now - EVIDENCE_RETENTION_DAYS * 86400_000).toISOString();
+  let pruned = 0;
+  for await (const e of kv.list({ start: ["evidence_by_time", ""], end: ["evidence_by_time", cutoff] })){
+    const id = String(e.key[2]);
+    const tx = kv.atomic().delete(e.key).delete(["evidence", id]);
+    for await (const c of kv.list({ prefix: ["evidence_chunk", id] })) tx.delete(c.key);
+    await tx.commit();
+    pruned++;
+  }
+  if (pruned) info("evidence", "pruned snapshots", { pruned, cutoff });
+  return pruned;
+}
+
+function startEvidencePruning(){
+  if (EVIDENCE_RETENTION_DAYS <= 0) return;
+  setInterval(()=> { pruneEvidence().catch(e => err("evidence", "prune failed", String(e))); }, 3600_000);
+}
+
+// Snapshot viewer: metadata, the source around the price with the match marked, and a rendered
+// copy in a script-less sandbox (the response CSP also blocks any external loads)
+function evidencePage(meta:EvidenceMeta, html:string, intact:boolean){
+  const loc = meta.location;
+  const mark = (s:string)=> `<mark id="price">${escapeHtml(s)}</mark>`;
+  let source = escapeHtml(html.slice(0, 4000));
+  let rendered = html;
+  if (loc){
+    const from = Math.max(0, loc.offset - 1500), to = Math.min(html.length, loc.offset + loc.length + 1500);
+    const before = html.slice(0, loc.offset), match = html.slice(loc.offset, loc.offset + loc.length), after = html.slice(loc.offset + loc.length);
+    source = escapeHtml(html.slice(from, loc.offset)) + mark(match) + escapeHtml(html.slice(loc.offset + loc.length, to));
+    // Highlight the rendered page only when the match is visible text (not inside a tag or script)
+    const lc = before.toLowerCase();
+    const inTag = before.lastIndexOf("<") > before.lastIndexOf(">");
+    const inScript = lc.lastIndexOf("<script") > lc.lastIndexOf("</script");
+    if (!inTag && !inScript && !/[<>]/.test(match)){
+      rendered = `${before}<mark style="background:#fde047;outline:3px solid #dc2626">${match}</mark>${after}`;
+    }
+  }
+  const row = (k:string, v:unknown)=> `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(String(v ?? "—"))}</td></tr>`;
+  return `<!doctype html><html lang="he" dir="rtl"><head><meta charset="utf-8"><title>Evidence ${escapeHtml(meta.id)}</title>
+<style>body{font-family:system-ui,sans-serif;margin:16px;color:#0d1321}table{border-collapse:collapse}th,td{padding:4px 8px;border-bottom:1px solid #e6edf7;text-align:start}
+pre{white-space:pre-wrap;direction:ltr;background:#0b1220;color:#e5eefb;padding:10px;border-radius:12px;font-size:12px}mark{background:#fde047;color:#000}
+iframe{width:100%;height:70vh;border:1px solid #e6edf7;border-radius:12px}</style></head><body>
+<h2>הוכחת מחיר</h2>
+<table>
+${row("מזהה", meta.id)}${row("כתובת", meta.url)}${row("מחיר שזוהה", meta.price != null ? `₪${meta.price}` : null)}${row("מקור המחיר", meta.price_source)}
+${row("HTTP", meta.http_status)}${row("Date (שרת)", meta.http_date)}${row("נשלף", meta.fetched_at)}${row("נשמר", meta.archived_at)}
+${row("SHA-256", meta.content_sha256)}${row("שלמות", intact ? "✅ התוכן תואם ל-hash" : "❌ התוכן אינו תואם ל-hash")}
+</table>
+<h3>קוד המקור סביב המחיר</h3><pre>${source}</pre>
+<h3>העמוד כפי שנשמר</h3><iframe sandbox="" srcdoc="${rendered.replace(/&/g, "&amp;").replace(/"/g, "&quot;")}"></iframe>
+</body></html>`;
+}
+
+// ===== Repair loop (re-ask the model for rejected / missing lines) =====
+// Runs before the final verifyStore pass. Lines that fail verification, and list items a store
+// left out, go back to the model with the concrete failure; replacements that verify are swapped
+// in with line.repair = { round, reason, replaced_url }. Bounded by rounds and a time budget
+// (no new round starts once REPAIR_BUDGET_MS has passed).
+type RepairSlot = {
+  branch_id: string;
+  store_name: string;
+  line_index: number | null;   // null: item missing from the basket
+  list_index: number | null;
+  item: string;
+  rejected_url: string | null;
+  reason: string;
+};
+type RepairedLine = {
+  branch_id: string;
+  store_name: string;
+  item: string;
+  list_index: number | null;
+  reason: string;
+  replaced_url: string | null;
+  product_url: string;
+};
+type RepairRound = {
+  round: number;
+  asked: number;
+  repaired: number;
+  ms: number;
+  provider?: string;
+  model?: string;
+  usage?: LlmUsage;
+  error?: string;
+  lines: RepairedLine[];
+};
+// The search payload's `repair`: unresolved is null when the request turned repair off
+type RepairReport = {
+  max_rounds: number;
+  rounds: RepairRound[];
+  stopped: "clean" | "max_rounds" | "time_budget" | "model_error" | "disabled";
+  unresolved: number | null;
+};
+
+// Rounds a request asks for (repair_rounds), capped at REPAIR_MAX_ROUNDS
+function repairRounds(body:Record<string, unknown> | null | undefined){
+  const rr = body?.repair_rounds;
+  return rr != null && rr !== "" && Number.isFinite(Number(rr)) ? Math.min(REPAIR_MAX_ROUNDS, Math.max(0, Number(rr))) : REPAIR_MAX_ROUNDS;
+}
+
+function lineFailure(line:Partial<BasketLine>, proof:Proof, cons?:{ profile:ConstraintProfile; want:ListItem|null; list_index:number|null }): string | null {
+  if (!proof.domain_ok) return "domain not allowed";
+  if (proof.http_status !== 200) return `non-200 (${proof.http_status || "no response"})`;
+  if (proof.price_source === "none") return "no price found on page";
+  if (typeof proof.price_extracted === "number" && typeof line.unit_price === "number" && !proof.price_matches){
+    return `wrong price: page shows ₪${proof.price_extracted}, reported ₪${line.unit_price}`;
+  }
+  if (proof.name_match < REPAIR_NAME_MATCH_MIN) return `low name_match (${Math.round(proof.name_match * 100)}%)`;
+  return cons ? constraintViolation(line, proof, cons.profile, cons.want, cons.list_index) : null;
+}
+
+// Lines verified in an earlier round (or swapped in by applyRepairs) keep their proof in `proofs`
+async function findRepairSlots(id:string, stores:StoreResult[], approved:Map<string, Branch>, listItems:ListItem[], proofs:LineProofs, profile?:ConstraintProfile){
+  const slots: RepairSlot[] = [];
+  for (const s of stores){
+    if (!approved.has(s.branch_id)) continue;
+    const lines: BasketLine[] = Array.isArray(s.basket) ? s.basket : (s.basket = []);
+    const checked = await mapPool(lines.map((_, i)=> i), VERIFY_CONCURRENCY, async (i:number)=> {
+      const want = matchListItem(listItems, String(lines[i]?.name ?? ""));
+      return { want, proof: await verifyLine(id, proofs, lines[i], want, i) };
+    });
+    const covered = new Set<number>();
+    checked.forEach(({ want, proof }, i)=>{
+      const list_index = want ? listItems.indexOf(want) : null;
+      const reason = lineFailure(lines[i], proof, profile && { profile, want, list_index });
+      if (!reason){ if (list_index != null) covered.add(list_index); return; }
+      slots.push({ branch_id: s.branch_id, store_name: s.store_name, line_index: i, list_index, item: want?.raw ?? String(lines[i]?.name ?? ""), rejected_url: lines[i]?.product_url || null, reason });
+    });
+    // A line per list item means unmatched names are naming differences, not omissions
+    if (lines.length >= listItems.length) continue;
+    listItems.forEach((w, li)=>{
+      if (covered.has(li) || slots.some(x => x.branch_id === s.branch_id && x.list_index === li)) return;
+      slots.push({ branch_id: s.branch_id, store_name: s.store_name, line_index: null, list_index: li, item: w.raw, rejected_url: null, reason: "missing from basket" });
+    });
+  }
+  return slots;
+}
+
+function repairPrompt(basePrompt:string, round:number, slots:RepairSlot[], rejected:Set<string>){
+  return `${basePrompt}
+
+REPAIR ROUND ${round}:
+Server-side verification rejected the lines below, or the store's basket left them out.
+- For each entry find ONE product page on ALLOWED_DOMAINS, from that branch's chain, showing the item and its price in "₪".
+- Report unit_price exactly as the page shows it; keep quantity, pack_qty and size from PARSED_ITEMS.
+- Never reuse a URL from REJECTED_URLS.
+- Return ONE submit_results call with one result per branch_id below; each basket holds ONLY the replacement lines. Omit lines you cannot find.
+
+FAILURES (JSON):
+${JSON.stringify(slots.map(({ line_index: _i, ...x })=> x), null, 2)}
+
+REJECTED_URLS: ${JSON.stringify([...rejected])}`;
+}
+
+async function applyRepairs(id:string, stores:StoreResult[], slots:RepairSlot[], results:unknown, listItems:ListItem[], rejected:Set<string>, round:number, proofs:LineProofs, profile?:ConstraintProfile){
+  const repaired: RepairedLine[] = [];
+  const open = new Set(slots);
+  for (const r of Array.isArray(results) ? results : []){
+    const store = stores.find(s => s.branch_id === r?.branch_id);
+    if (!store) continue;
+    for (const line of Array.isArray(r.basket) ? r.basket : []){
+      if (!line?.product_url || rejected.has(line.product_url)) continue;
+      const mine = [...open].filter(x => x.branch_id === store.branch_id);
+      const want = matchListItem(mine.flatMap(x => x.list_index != null ? [listItems[x.list_index]] : []), String(line.name ?? ""));
+      const slot = want
+        ? mine.find(x => x.list_index === listItems.indexOf(want))
+        : mine.find(x => tokenOverlap(x.item, String(line.name ?? "")) >= 0.5);
+      if (!slot) continue;
+      const proof = await verifyLine(id, proofs, line, want, slot.line_index ?? store.basket.length);
+      if (lineFailure(line, proof, profile && { profile, want, list_index: slot.list_index })){ rejected.add(line.product_url); continue; }
+      line.repair = { round, reason: slot.reason, replaced_url: slot.rejected_url };
+      if (slot.line_index != null) store.basket[slot.line_index] = line; else store.basket.push(line);
+      open.delete(slot);
+      repaired.push({ branch_id: store.branch_id, store_name: store.store_name, item: slot.item, list_index: slot.list_index, reason: slot.reason, replaced_url: slot.rejected_url, product_url: line.product_url });
+    }
+  }
+  return repaired;
+}
+
+async function repairResults(id:string, stores:StoreResult[], approved:Map<string, Branch>, listItems:ListItem[], basePrompt:string, opt:{ rounds:number; emit:SearchEmit; proofs:LineProofs; constraints?:ConstraintProfile }){
+  const deadline = Date.now() + REPAIR_BUDGET_MS;
+  const report: RepairReport = { max_rounds: opt.rounds, rounds: [], stopped: "clean", unresolved: 0 };
+  const rejected = new Set<string>();
+  for (let round = 1; ; round++){
+    const slots = await findRepairSlots(id, stores, approved, listItems, opt.proofs, opt.constraints);
+    report.unresolved = slots.length;
+    if (!slots.length){ report.stopped = "clean"; break; }
+    if (round > opt.rounds){ report.stopped = "max_rounds"; break; }
+    if (Date.now() >= deadline){ report.stopped = "time_budget"; break; }
+    for (const x of slots) if (x.rejected_url) rejected.add(x.rejected_url);
+
+    const t0 = Date.now();
+    await opt.emit("repair_started", { round, lines: slots.length });
+    let res: Awaited<ReturnType<typeof callLlm>>;
+    try{
+      res = await span(id, "repair_round", ()=> callLlm(PROMPT_SYSTEM, repairPrompt(basePrompt, round, slots, rejected), id), { round, lines: slots.length });
+    } catch(e){
+      const message = e instanceof Error ? e.message : String(e);
+      err(id, `repair round ${round} failed`, message);
+      report.rounds.push({ round, asked: slots.length, repaired: 0, ms: Date.now() - t0, error: message, lines: [] });
+      report.stopped = "model_error";
+      break;
+    }
+    const lines = await applyRepairs(id, stores, slots, res.parsed?.results, listItems, rejected, round, opt.proofs, opt.constraints);
+    const entry: RepairRound = { round, asked: slots.length, repaired: lines.length, ms: Date.now() - t0, provider: res.provider, model: res.model, usage: res.usage, lines };
+    report.rounds.push(entry);
+    await opt.emit("repair_finished", entry);
+    info(id, "repair round", { round, asked: slots.length, repaired: lines.length });
+  }
+  return report;
+}
+
+// ===== Product catalog + price history (Deno KV) =====
+// products:  ["products", id] -> Product        (id = barcode when known, else hash of first product_url)
+// indexes:   ["barcodes", ean] -> id, ["product_urls", url] -> id
+// history:   ["price_obs", id, observed_at, branch_id] -> PriceObservation
+type Product = {
+  id: string;
+  barcode: string | null;
+  name: string;
+  brand: string | null;
+  size: string | null;
+  pack_qty: number | null;
+  unit: string | null;
+  product_urls: Record<string, string>;   // source_domain -> product_url
+  first_seen: string;
+  last_seen: string;
+};
+type PriceObservation = {
+  product_id: string;
+  chain: string;
+  branch_id: string;
+  price: number;
+  ppu: number | null;
+  source: string;            // source_domain or "feed"
+  price_scope?: PriceScope;
+  product_url: string | null;
+  observed_at: string;
+  request_id: string;
+};
+
+async function sha1Hex(s:string){
+  const d = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(s));
+  return [...new Uint8Array(d)].map(b => b.toString(16).padStart(2, "0")).join("");
+}
+
+async function resolveProductId(line:BasketLine): Promise<string> {
+  const barcode = line.barcode ? String(line.barcode) : "";
+  if (barcode){
+    const hit = await kv.get<string>(["barcodes", barcode]);
+    return hit.value ?? barcode;
+  }
+  if (line.product_url){
+    const hit = await kv.get<string>(["product_urls", line.product_url]);
+    if (hit.value) return hit.value;
+    return "u_" + (await sha1Hex(line.product_url)).slice(0, 16);
+  }
+  return "n_" + (await sha1Hex([line.brand, line.name, line.size].filter(Boolean).join("|").toLowerCase())).slice(0, 16);
+}
+
+async function upsertProduct(line:BasketLine, now:string): Promise<string> {
+  const id = await resolveProductId(line);
+  const prev = (await kv.get<Product>(["products", id])).value;
+  const domain = line.source_domain || "";
+  const p: Product = {
+    id,
+    barcode: line.barcode ? String(line.barcode) : prev?.barcode ?? null,
+    name: prev?.name || String(line.name || ""),
+    brand: prev?.brand ?? line.brand ?? null,
+    size: prev?.size ?? line.size ?? null,
+    pack_qty: prev?.pack_qty ?? line.pack_qty ?? null,
+    unit: prev?.unit ?? line.unit ?? null,
+    product_urls: { ...(prev?.product_urls ?? {}), ...(line.product_url && domain ? { [domain]: line.product_url } : {}) },
+    first_seen: prev?.first_seen ?? now,
+    last_seen: now
+  };
+  const tx = kv.atomic().set(["products", id], p);
+  if (p.barcode) tx.set(["barcodes", p.barcode], id);
+  if (line.product_url) tx.set(["product_urls", line.product_url], id);
+  await tx.commit();
+  return id;
+}
+
+// Persist every verified line of a store result; failures are logged, never thrown
+async function recordStoreObservations(id:string, store:StoreResult){
+  const now = new Date().toISOString();
+  const lines = Array.isArray(store.basket) ? store.basket : [];
+  for (const line of lines){
+    if (line?.verification?.notes !== "OK" || typeof line.unit_price !== "number") continue;
+    try{
+      const product_id = await upsertProduct(line, now);
+      line.product_id = product_id;
+      const obs: PriceObservation = {
+        product_id,
+        chain: String(store.store_name || ""),
+        branch_id: String(store.branch_id || ""),
+        price: line.unit_price,
+        ppu: typeof line.ppu === "number" ? line.ppu : null,
+        source: String(line.source_domain || ""),
+        price_scope: line.price_scope ?? undefined,
+        product_url: line.product_url || null,
+        observed_at: now,
+        request_id: id
+      };
+      await kv.set(["price_obs", product_id, now, obs.branch_id], obs);
+    } catch(e){
+      err(id, "catalog write failed", String(e));
+    }
+  }
+}
+
+// Lookup by catalog id, falling back to the barcode index
+async function getProduct(idOrBarcode:string): Promise<Product | null> {
+  const p = (await kv.get<Product>(["products", idOrBarcode])).value;
+  if (p) return p;
+  const alias = (await kv.get<string>(["barcodes", idOrBarcode])).value;
+  return alias ? (await kv.get<Product>(["products", alias])).value : null;
+}
+
+async function productHistory(product_id:string, opts:{ chain?:string; since?:string; limit?:number } = {}){
+  const out: PriceObservation[] = [];
+  const sel: Deno.KvListSelector = opts.since
+    ? { start: ["price_obs", product_id, opts.since], end: ["price_obs", product_id, "\uffff"] }
+    : { prefix: ["price_obs", product_id] };
+  for await (const e of kv.list<PriceObservation>(sel, { limit: opts.limit ?? 1000 })){
+    if (opts.chain && e.value.chain !== opts.chain) continue;
+    out.push(e.value);
+  }
+  const byChain: Record<string, PriceObservation[]> = {};
+  for (const o of out) (byChain[o.chain] ??= []).push(o);
+  return { observations: out.length, by_chain: byChain };
+}
+
+// ===== Barcode lookup =====
+// EAN-13 -> catalog product (or a feed item carrying that code), priced per nearby branch:
+// the branch's own feed price first, then the chain's product page via verifyItem, then the
+// latest stored observation for that branch.
+function validEan13(ean:string){
+  if (!/^\d{13}$/.test(ean)) return false;
+  const d = [...ean].map(Number);
+  const sum = d.slice(0, 12).reduce((s, n, i)=> s + n * (i % 2 ? 3 : 1), 0);
+  return (10 - sum % 10) % 10 === d[12];
+}
+
+function feedItemByCode(code:string){
+  for (const s of FEED_STORES.values()){
+    const it = s.items.get(code);
+    if (it) return it;
+  }
+  return null;
+}
+
+async function latestBranchObservation(product_id:string, branch_id:string){
+  for await (const e of kv.list<PriceObservation>({ prefix: ["price_obs", product_id] }, { reverse: true, limit: 500 })){
+    if (e.value.branch_id === branch_id) return e.value;
+  }
+  return null;
+}
+
+// One branch in GET /api/barcode/:ean, cheapest effective price first
+type BarcodePrice = Pick<Branch, "chain" | "branch_id" | "branch_name" | "address" | "distance_km" | "travel_minutes" | "branch_url"> & {
+  price: number | null;
+  effective_price: number | null;
+  pricing: LinePricing | null;
+  source: "feed" | "site" | "observation" | null;
+  price_scope: PriceScope | null;
+  product_url: string | null;
+  observed_at: string | null;
+  verification: (Proof & { barcode_matches: boolean }) | { price_source: "feed"; store_id: string; notes: string } | null;
+};
+
+async function priceBarcodeAtBranches(ean:string, product:Product | null, branches:Branch[], clubs:string[]): Promise<BarcodePrice[]> {
+  // Product pages are chain-wide, so verify each chain's page once
+  const pageByChain = new Map<string, Promise<{ product_url: string; proof: Proof }>>();
+  const verifyChain = (chain:string)=>{
+    const entry = Object.entries(product?.product_urls ?? {}).find(([domain])=> retailerByDomain(domain)?.name_he === chain);
+    if (!entry) return null;
+    if (!pageByChain.has(chain)){
+      const it = { product_url: entry[1], name: product!.name, brand: product!.brand, size: product!.size, barcode: ean, unit_price: null };
+      pageByChain.set(chain, verifyItem(it).then(async proof => { await archiveProof(it, proof); return { product_url: entry[1], proof }; }));
+    }
+    return pageByChain.get(chain)!;
+  };
+
+  const out: BarcodePrice[] = [];
+  for (const b of branches){
+    const row: BarcodePrice = {
+      chain: b.chain, branch_id: b.branch_id, branch_name: b.branch_name, address: b.address,
+      distance_km: b.distance_km, travel_minutes: b.travel_minutes, branch_url: b.branch_url,
+      price: null, effective_price: null, pricing: null, source: null, price_scope: null, product_url: null, observed_at: null, verification: null
+    };
+    const line: Partial<BasketLine> = { quantity: 1 };
+    const fs = feedStoreForBranch(b);
+    const fi = fs?.items.get(ean);
+    if (fs && fi){
+      Object.assign(line, { unit_price: fi.price, promotions: fs.promos.filter(p => p.item_codes.includes(ean)).map(promotionFromFeed).filter((p): p is Promotion => !!p) });
+      row.source = "feed"; row.price_scope = "branch"; row.observed_at = fi.updated_at;
+      row.verification = { price_source: "feed", store_id: fs.store_id, notes: "OK" };
+    } else {
+      const page = await verifyChain(b.chain);
+      if (page && page.proof.price_source !== "none" && typeof page.proof.price_extracted === "number"){
+        // Only trust the page when its barcode (if shown) is the one scanned
+        const barcodeOk = !page.proof.barcode || String(page.proof.barcode) === ean;
+        if (barcodeOk){
+          Object.assign(line, { unit_price: page.proof.price_extracted, verification: page.proof });
+          row.source = "site"; row.price_scope = "online"; row.product_url = page.product_url; row.observed_at = new Date().toISOString();
+        }
+        // No quoted price to match here: the read is good when it is the scanned product's page
+        row.verification = { ...page.proof, barcode_matches: barcodeOk, notes: barcodeOk ? "OK" : "barcode mismatch" };
+      } else if (product){
+        const obs = await latestBranchObservation(product.id, b.branch_id);
+        if (obs){
+          line.unit_price = obs.price;
+          row.source = "observation"; row.price_scope = obs.price_scope ?? "chain"; row.product_url = obs.product_url; row.observed_at = obs.observed_at;
+        }
+      }
+    }
+    if (typeof line.unit_price === "number"){
+      const pricing = priceLine(line, b.chain, clubs);
+      row.price = line.unit_price;
+      row.pricing = pricing;
+      row.effective_price = pricing?.effective_unit_price ?? line.unit_price;
+    }
+    out.push(row);
+  }
+  out.sort((a,b)=> (a.effective_price ?? Infinity) - (b.effective_price ?? Infinity) || a.travel_minutes - b.travel_minutes);
+  return out;
+}
+
+// ===== Users, API tokens, saved lists =====
+// ["users", id] -> User, ["user_emails", email] -> id
+// ["api_tokens", sha256(token)] -> { user_id, created_at }   (raw tokens are shown once, never stored)
+// ["lists", user_id, list_id] -> SavedList, ["list_snapshots", list_id, at] -> ListSnapshot
+type User = { id: string; email: string; password_hash: string; salt: string; created_at: string };
+type SavedList = {
+  id: string;
+  user_id: string;
+  name: string;
+  list_text: string;
+  items: ListItem[];
+  address: string;
+  radius_km: number;
+  clubs: string[];
+  created_at: string;
+  updated_at: string;
+};
+type ListSnapshot = {
+  list_id: string;
+  at: string;
+  request_id: string;
+  source: string;
+  cheapest: { store_name: string; branch_id: string; branch_name: string; total_price: number | null } | null;
+  results: SnapshotStore[];
+};
+// A store as kept in list history; the basket is dropped when the snapshot has to shrink
+type SnapshotStore = Pick<StoreResult, "rank" | "store_name" | "branch_id" | "branch_name" | "total_price" | "coverage"> & {
+  store_verified: boolean;
+  basket?: Pick<BasketLine, "name" | "quantity" | "unit_price" | "line_total" | "product_url">[];
+};
+
+function toHex(b:ArrayBuffer){ return [...new Uint8Array(b)].map(x => x.toString(16).padStart(2, "0")).join(""); }
+async function sha256Hex(s:string){ return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(s))); }
+async function hashPassword(password:string, salt:string){
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt: new TextEncoder().encode(salt), iterations: 100_000 }, key, 256);
+  return toHex(bits);
+}
+function randomToken(bytes = 24){ return toHex(crypto.getRandomValues(new Uint8Array(bytes)).buffer); }
+
+async function issueApiToken(user_id:string){
+  const token = `cc_${randomToken()}`;
+  await kv.set(["api_tokens", await sha256Hex(token)], { user_id, created_at: new Date().toISOString() });
+  return token;
+}
+
+async function createUser(email:string, password:string){
+  const e = email.trim().toLowerCase();
+  if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(e)) throw new HttpError(400, "Invalid email");
+  if (password.length < 8) throw new HttpError(400, "Password must be at least 8 characters");
+  const salt = randomToken(16);
+  const user: User = { id: rid(), email: e, password_hash: await hashPassword(password, salt), salt, created_at: new Date().toISOString() };
+  const res = await kv.atomic()
+    .check({ key: ["user_emails", e], versionstamp: null })
+    .set(["user_emails", e], user.id)
+    .set(["users", user.id], user)
+    .commit();
+  if (!res.ok) throw new HttpError(409, "Email already registered");
+  return user;
+}
+
+async function loginUser(email:string, password:string){
+  const uid = (await kv.get<string>(["user_emails", email.trim().toLowerCase()])).value;
+  const user = uid ? (await kv.get<User>(["users", uid])).value : null;
+  if (!user || await hashPassword(password, user.salt) !== user.password_hash) throw new HttpError(401, "Invalid email or password");
+  return user;
+}
+
+// Authorization: Bearer <token>
+async function authUser(authorization:string|undefined): Promise<User> {
+  const token = (authorization || "").replace(/^Bearer\s+/i, "").trim();
+  if (!token) throw new HttpError(401, "Missing API token");
+  const t = (await kv.get<{ user_id:string }>(["api_tokens", await sha256Hex(token)])).value;
+  const user = t ? (await kv.get<User>(["users", t.user_id])).value : null;
+  if (!user) throw new HttpError(401, "Invalid API token");
+  return user;
+}
+
+function listFromBody(body:Record<string, unknown> | null | undefined, prev?:SavedList): Omit<SavedList, "id"|"user_id"|"created_at"|"updated_at"> {
+  const list_text = String(body?.list_text ?? prev?.list_text ?? "").slice(0, 800);
+  const address = cleanText(String(body?.address ?? prev?.address ?? ""), 200);
+  const radius_km = Math.max(1, Number(body?.radius_km ?? prev?.radius_km ?? 5));
+  const miss: string[] = [];
+  if (!list_text.trim()) miss.push("list_text");
+  if (!address) miss.push("address");
+  if (!Number.isFinite(radius_km)) miss.push("radius_km");
+  if (miss.length) throw new HttpError(400, `Missing: ${miss.join(", ")}`, { needed: miss });
+  return {
+    name: cleanText(String(body?.name ?? prev?.name ?? "הרשימה שלי"), 80),
+    list_text,
+    items: parseList(list_text),
+    address,
+    radius_km,
+    clubs: body?.clubs !== undefined ? parseClubs(body.clubs) : (prev?.clubs ?? [])
+  };
+}
+
+async function getList(user:User, list_id:string){
+  const l = (await kv.get<SavedList>(["lists", user.id, list_id])).value;
+  if (!l) throw new HttpError(404, "List not found");
+  return l;
+}
+
+// Compact copy of a search result for history. KV values are capped at 64 KiB, counted in bytes
+// (Hebrew names take two per character): over SNAPSHOT_MAX_BYTES the baskets are dropped, then
+// the lowest-ranked stores.
+const SNAPSHOT_MAX_BYTES = 55_000;
+function snapshotResults(results:StoreResult[]): SnapshotStore[] {
+  const bytes = (v:unknown)=> new TextEncoder().encode(JSON.stringify(v)).length;
+  const full = results.map(r => ({
+    rank: r.rank, store_name: r.store_name, branch_id: r.branch_id, branch_name: r.branch_name,
+    total_price: r.total_price, coverage: r.coverage, store_verified: !!r.store_verification?.store_verified,
+    basket: (r.basket || []).map(b => ({ name: b.name, quantity: b.quantity, unit_price: b.unit_price, line_total: b.line_total, product_url: b.product_url }))
+  }));
+  if (bytes(full) <= SNAPSHOT_MAX_BYTES) return full;
+  const slim: SnapshotStore[] = full.map(({ basket: _b, ...rest }) => rest);
+  while (slim.length > 1 && bytes(slim) > SNAPSHOT_MAX_BYTES) slim.pop();
+  return slim;
+}
+
+async function latestSnapshot(list_id:string){
+  for await (const e of kv.list<ListSnapshot>({ prefix: ["list_snapshots", list_id] }, { reverse: true, limit: 1 })) return e.value;
+  return null;
+}
+
+// Search for a saved list with the owner's constraint profile, without recording a snapshot
+async function priceList(id:string, list:SavedList, overrides:Record<string, unknown> = {}){
+  const saved = (await kv.get<ConstraintProfile>(["user_profiles", list.user_id])).value;
+  return await runSearch(id, {
+    address: list.address, radius_km: list.radius_km, list_text: list.list_text, clubs: list.clubs,
+    mode: overrides?.mode, show_all: !!overrides?.show_all, use_feeds: overrides?.use_feeds,
+    constraints: mergeProfiles(saved, constraintProfile(overrides?.constraints))
+  });
+}
+
+async function repriceList(id:string, list:SavedList, overrides:Record<string, unknown> = {}){
+  const previous = await latestSnapshot(list.id);
+  const payload = await priceList(id, list, overrides);
+  if (payload.status !== "ok") return { payload, snapshot: null, previous };
+
+  const top = payload.results?.[0];
+  const snapshot: ListSnapshot = {
+    list_id: list.id,
+    at: new Date().toISOString(),
+    request_id: id,
+    source: payload.source,
+    cheapest: top ? { store_name: top.store_name, branch_id: top.branch_id, branch_name: top.branch_name, total_price: top.total_price } : null,
+    results: snapshotResults(payload.results || [])
+  };
+  await kv.set(["list_snapshots", list.id, snapshot.at], snapshot);
+  return { payload, snapshot, previous };
+}
+
+// ===== Constraint profiles (kashrut, allergens, diet, brands) =====
+// A profile limits which products may fill a line: minimum kashrut level, allergens to avoid
+// (including "may contain"), required diet tags and brand allow/deny lists. `no_substitution`
+// (list indexes) or a trailing "!" on a list line forbids substitutes for that line. A signed-in
+// user's saved profile is merged with the request's `constraints` (the stricter side wins); the
+// prompt states them, and verifyStore / the repair loop reject lines whose product page (or,
+// without page facts, the model's claim) breaks them.
+//   ["user_profiles", user_id] -> ConstraintProfile
+type Kashrut = "none" | "rabbanut" | "mehadrin" | "badatz";
+type Allergen = "gluten" | "milk" | "eggs" | "peanuts" | "nuts" | "soy" | "sesame" | "fish";
+type DietTag = "gluten_free" | "lactose_free" | "vegan" | "sugar_free";
+type ConstraintProfile = {
+  kashrut: Kashrut;            // minimum certification; "none" = no requirement
+  allergens: Allergen[];
+  diet: DietTag[];
+  brands_allow: string[];      // substitutes must be one of these (empty = any)
+  brands_deny: string[];       // never, substitute or not
+  no_substitution: number[];   // list indexes (0-based)
+};
+type ProductFacts = { kashrut: Kashrut | null; contains: Allergen[]; may_contain: Allergen[]; allergens_listed: boolean; claims: DietTag[] };
+
+const KASHRUT_LEVELS: Kashrut[] = ["none", "rabbanut", "mehadrin", "badatz"];
+const ALLERGEN_RE: Record<Allergen, RegExp> = {
+  gluten: /גלוטן|חיטה|שעורה|שיפון|gluten|wheat/i,
+  milk: /חלב|לקטוז|\bmilk\b|lactose/i,
+  eggs: /ביצה|ביצים|\beggs?\b/i,
+  peanuts: /בוטנים|peanuts?/i,
+  nuts: /אגוזי|אגוזים|שקדים|\bnuts\b|almonds?/i,
+  soy: /סויה|\bsoy/i,
+  sesame: /שומשום|sesame/i,
+  fish: /דגים|\bfish\b/i,
+};
+// A tag holds when the product claims it, or (where `avoid` is set) its allergen list lacks them
+const DIET_RULES: Record<DietTag, { claim: RegExp; avoid: Allergen[] }> = {
+  gluten_free:  { claim: /ללא\s*גלוטן|gluten[\s-]*free/i, avoid: ["gluten"] },
+  lactose_free: { claim: /ללא\s*לקטוז|lactose[\s-]*free/i, avoid: [] },   // lactose-free milk still lists milk
+  vegan:        { claim: /טבעוני|vegan/i, avoid: ["milk", "eggs", "fish"] },
+  sugar_free:   { claim: /ללא\s*(?:תוספת\s*)?סוכר|sugar[\s-]*free|no added sugar/i, avoid: [] },
+};
+const EMPTY_PROFILE: ConstraintProfile = { kashrut: "none", allergens: [], diet: [], brands_allow: [], brands_deny: [], no_substitution: [] };
+
+// Only a labelled value counts ("כשרות: בד\"ץ העדה החרדית"): menus and filters elsewhere on the page
+// name every certification. Passover status ("לא כשר לפסח") says nothing about year-round kashrut.
+const KASHRUT_LABEL_RE = /(?:כשרות|השגחה|kashrut|kosher(?:\s*certification)?)\s*:\s*([^.|\n]{1,80})/i;
+function kashrutOf(text:string): Kashrut | null {
+  const value = text.match(KASHRUT_LABEL_RE)?.[1];
+  return value ? kashrutLevel(value) : null;
+}
+// A certification value on its own: the label's value, or the model's `kashrut` field
+function kashrutLevel(raw:string): Kashrut | null {
+  const value = raw.replace(/(?:לא\s*)?(?:כשר\s*)?לפסח|(?:not\s*)?kosher\s*for\s*passover/gi, " ");
+  if (!value.trim()) return null;
+  if (/^\s*(?:ללא|אין|לא\s*כשר|none|not\s*kosher)/i.test(value)) return "none";
+  if (/בד"?ץ|badatz/i.test(value)) return "badatz";
+  if (/מהדרין|mehadrin/i.test(value)) return "mehadrin";
+  if (/כשר|רבנות|rabbanut|kosher/i.test(value)) return "rabbanut";
+  return null;
+}
+function allergensIn(text:string){ return (Object.keys(ALLERGEN_RE) as Allergen[]).filter(a => ALLERGEN_RE[a].test(text)); }
+
+// Text that describes the product itself: JSON-LD Product fields and the page's description /
+// ingredients / allergen / kashrut blocks. Navigation, filter menus and scripts are left out.
+const PRODUCT_BLOCK_RE = /<(div|section|p|ul|dl|span|li|td)\b[^>]*(?:class|id|itemprop)=["'][^"']*(?:description|ingredient|allergen|kosher|kashrut|product-?info|product-?details|nutrition)[^"']*["'][^>]*>([\s\S]*?)<\/\1>/gi;
+function productText(html:string){
+  const parts: string[] = [];
+  const ld = jsonLdProduct(html);
+  if (ld){
+    for (const k of ["name", "description", "disclaimer"] as const){ const v = ld[k]; if (typeof v === "string") parts.push(v); }
+    const props = Array.isArray(ld.additionalProperty) ? ld.additionalProperty : ld.additionalProperty ? [ld.additionalProperty] : [];
+    for (const p of props) if (p?.name && p?.value != null) parts.push(`${p.name}: ${p.value}.`);
   }
-  if (num != null) return { value: num, source: "shekel-sign" as const };
+  const body = html.replace(/<(script|style|nav|header|footer)\b[\s\S]*?<\/\1>/gi, " ");
+  for (const m of body.matchAll(PRODUCT_BLOCK_RE)) parts.push(m[2].replace(/<[^>]+>/g, " ") + ".");
+  return normalizeSpaces(decodeHtmlEntities(parts.join(" ")));
+}
 
-  const ilc = /"priceCurrency"\s*:\s*"(?:ILS|NIS)"/i;
-  const priceField = /"price"\s*:\s*"?(?<p>[\d.]+)"?/i;
-  if (ilc.test(html)){
-    const pMatch = priceField.exec(html);
-    if (pMatch?.groups?.p) {
-      const v = Number(pMatch.groups.p);
-      if (!isNaN(v)) return { value: v, source: "json-ld" as const };
+// Israeli labels state "מכיל: ...", "עלול להכיל: ..." and "כשרות: ..."
+function productFacts(html:string, title?:string|null): ProductFacts {
+  const text = productText(html);
+  const section = (re:RegExp)=> text.match(re)?.[1] ?? null;
+  const contains = section(/(?:רכיבים\s*אלרגניים|אלרגנים|מכיל|\bcontains)\s*:\s*([^.|\n]{1,160})/i);
+  const may = section(/(?:עלול\s*להכיל|may\s*contain)\s*:?\s*([^.|\n]{1,160})/i);
+  const hay = `${title ?? ""} ${text}`;
+  return {
+    kashrut: kashrutOf(text),
+    contains: contains ? allergensIn(contains) : [],
+    may_contain: may ? allergensIn(may) : [],
+    allergens_listed: contains != null,
+    claims: (Object.keys(DIET_RULES) as DietTag[]).filter(t => DIET_RULES[t].claim.test(hay))
+  };
+}
+
+function constraintProfile(x:unknown): ConstraintProfile {
+  if (x == null || x === "") return { ...EMPTY_PROFILE };
+  if (typeof x === "string"){
+    try{ x = JSON.parse(x); } catch{ throw new HttpError(400, "constraints must be a JSON object"); }
+  }
+  const o = x as Record<string, unknown> | null;
+  const list = (v:unknown)=> (Array.isArray(v) ? v : typeof v === "string" ? v.split(",") : []).map(s => String(s).trim()).filter(Boolean);
+  const pick = <T extends string>(k:string, allowed:readonly T[])=> {
+    const bad = list(o?.[k]).filter(v => !allowed.includes(v as T));
+    if (bad.length) throw new HttpError(400, `Unknown ${k}: ${bad.join(", ")}`, { allowed });
+    return [...new Set(list(o?.[k]))] as T[];
+  };
+  const kashrut = (o?.kashrut ?? "none") as Kashrut;
+  if (!KASHRUT_LEVELS.includes(kashrut)) throw new HttpError(400, `Unknown kashrut: ${kashrut}`, { allowed: KASHRUT_LEVELS });
+  return {
+    kashrut,
+    allergens: pick("allergens", Object.keys(ALLERGEN_RE) as Allergen[]),
+    diet: pick("diet", Object.keys(DIET_RULES) as DietTag[]),
+    brands_allow: list(o?.brands_allow).map(b => cleanText(b, 60)).slice(0, 50),
+    brands_deny: list(o?.brands_deny).map(b => cleanText(b, 60)).slice(0, 50),
+    no_substitution: list(o?.no_substitution).map(Number).filter(n => Number.isInteger(n) && n >= 0)
+  };
+}
+
+// Union of restrictions; an allow list from the request replaces the saved one
+function mergeProfiles(saved:ConstraintProfile | null, req:ConstraintProfile): ConstraintProfile {
+  if (!saved) return req;
+  const u = <T>(a:T[], b:T[])=> [...new Set([...a, ...b])];
+  return {
+    kashrut: KASHRUT_LEVELS[Math.max(KASHRUT_LEVELS.indexOf(saved.kashrut), KASHRUT_LEVELS.indexOf(req.kashrut))],
+    allergens: u(saved.allergens, req.allergens),
+    diet: u(saved.diet, req.diet),
+    brands_allow: req.brands_allow.length ? req.brands_allow : saved.brands_allow,
+    brands_deny: u(saved.brands_deny, req.brands_deny),
+    no_substitution: req.no_substitution
+  };
+}
+
+// Profile-wide rules only: per-line "no substitution" does not need page facts
+function constraintsActive(p:ConstraintProfile){
+  return p.kashrut !== "none" || p.allergens.length > 0 || p.diet.length > 0 || p.brands_allow.length > 0 || p.brands_deny.length > 0;
+}
+
+// A signed-in user's saved profile (Authorization: Bearer <user token>) merged with body.constraints.
+// Search routes are open, so any other Authorization value (an admin token, a stale token) is ignored.
+async function requestConstraints(authorization:string|undefined, body:Record<string, unknown>){
+  const user = authorization ? await authUser(authorization).catch((e)=> e instanceof HttpError && e.status === 401 ? null : Promise.reject(e)) : null;
+  const saved = user ? (await kv.get<ConstraintProfile>(["user_profiles", user.id])).value : null;
+  return mergeProfiles(saved, constraintProfile(body?.constraints));
+}
+
+function constraintsPrompt(p:ConstraintProfile, items:ListItem[]){
+  const exact = items.map((it, i)=> it.exact || p.no_substitution.includes(i) ? it.raw : null).filter(Boolean);
+  const rules: string[] = [];
+  if (p.kashrut !== "none") rules.push(`- Kashrut: only products certified ${p.kashrut}${p.kashrut === "rabbanut" ? " or stricter" : p.kashrut === "mehadrin" ? " or badatz" : ""}; report the certification in kashrut.`);
+  if (p.allergens.length) rules.push(`- Allergens: no product that contains or may contain ${p.allergens.join(", ")}; report listed allergens in allergens.`);
+  if (p.diet.length) rules.push(`- Diet: every product must be ${p.diet.join(", ")}.`);
+  if (p.brands_deny.length) rules.push(`- Never use these brands: ${JSON.stringify(p.brands_deny)}.`);
+  if (p.brands_allow.length) rules.push(`- Substitutes only from these brands: ${JSON.stringify(p.brands_allow)}.`);
+  if (exact.length) rules.push(`- No substitutes for: ${JSON.stringify(exact)}; drop the line if the exact item is unavailable.`);
+  return rules.length ? `\nUSER CONSTRAINTS (a line that breaks them is rejected):\n${rules.join("\n")}` : "";
+}
+
+// Why a line breaks the profile, or null. Page facts win over the model's kashrut/allergens claims.
+function constraintViolation(line:Partial<BasketLine>, proof:Proof, p:ConstraintProfile, want:ListItem|null, list_index:number|null): string | null {
+  const label = `${line.brand ?? ""} ${line.name ?? ""}`;
+  const hasBrand = (brands:string[])=> brands.some(b => tokenOverlap(b, label) >= 1);
+  if (p.brands_deny.length && hasBrand(p.brands_deny)) return `brand excluded (${line.brand || line.name})`;
+  if (line.substitution){
+    if (want?.exact || (list_index != null && p.no_substitution.includes(list_index))) return "substitution not allowed for this line";
+    if (p.brands_allow.length && !hasBrand(p.brands_allow)) return `substitute brand not allowed (${line.brand || "unknown"})`;
+  }
+  const f: ProductFacts | null = proof.facts ?? null;
+  const kashrut = f?.kashrut ?? kashrutLevel(String(line.kashrut ?? ""));
+  const need = KASHRUT_LEVELS.indexOf(p.kashrut);
+  // Most groceries are certified, so a missing statement only fails the stricter levels
+  if (kashrut == null && need > 1) return `kashrut not shown (need ${p.kashrut})`;
+  if (kashrut != null && KASHRUT_LEVELS.indexOf(kashrut) < need) return `kashrut ${kashrut} below ${p.kashrut}`;
+  const listed = f?.allergens_listed ? [...f.contains, ...f.may_contain]
+    : [...(f?.may_contain ?? []), ...allergensIn((Array.isArray(line.allergens) ? line.allergens : []).join(" "))];
+  const hit = p.allergens.find(a => listed.includes(a));
+  if (hit) return `contains or may contain ${hit}`;
+  for (const tag of p.diet){
+    const rule = DIET_RULES[tag];
+    if (f?.claims.includes(tag) || rule.claim.test(label)) continue;
+    const bad = rule.avoid.find(a => listed.includes(a));
+    if (bad) return `not ${tag} (contains ${bad})`;
+    if (!rule.avoid.length || !f?.allergens_listed) return `not shown as ${tag}`;
+  }
+  return null;
+}
+
+// ===== Price-drop alerts =====
+// Rules watch a catalog product (re-checked via verifyItem on its product pages) or a saved
+// list (priced through runSearch, without writing a list snapshot). List rules are re-checked
+// every ALERTS_LIST_INTERVAL_MIN, rules on the same list and scope share one search per tick,
+// and the model calls are charged to the owner (`user:<id>`, ALERT_LLM_BUDGET per UTC day).
+// Matches are POSTed to the rule's webhook, signed with HMAC-SHA256 over `${timestamp}.${body}`
+// using the per-rule secret returned at creation.
+// The scheduler is a timer (or Deno.cron) calling runDueAlerts(clock); the clock is injectable
+// so ticks can be driven with a fixed time (see POST /api/alerts/run).
+type Clock = { now(): number };
+const systemClock: Clock = { now: ()=> Date.now() };
+
+type AlertRule = {
+  id: string;
+  user_id: string;
+  target: { type: "product"; product_id: string } | { type: "list"; list_id: string };
+  scope: { branch_id: string | null; address: string | null; radius_km: number | null };
+  condition: { target_price: number | null; drop_pct: number | null };
+  webhook_url: string;
+  secret: string;
+  active: boolean;
+  baseline_price: number | null;
+  last_price: number | null;
+  last_checked_at: string | null;
+  last_triggered_at: string | null;
+  last_triggered_price: number | null;
+  next_check_at: number;
+  created_at: string;
+};
+type AlertDelivery = { alert_id: string; at: string; status: number; ok: boolean; price: number; error: string | null };
+
+// Webhooks must not reach the server's own network: every address the host resolves to has to
+// be public (checked at creation and again before each delivery). ALERT_WEBHOOK_ALLOW lists hosts
+// that skip the check, e.g. a receiver on the same machine.
+function privateAddress(ip:string): boolean {
+  const v4 = ip.match(/^(?:::ffff:)?(\d+)\.(\d+)\.(\d+)\.(\d+)$/i);
+  if (v4){
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || (a === 100 && b >= 64 && b <= 127) || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168) || (a === 192 && b === 0 && Number(v4[3]) === 0)
+      || (a === 198 && (b === 18 || b === 19)) || a >= 224;
+  }
+  const v6 = ip.toLowerCase().replace(/^\[|\]$/g, "");
+  return v6 === "::" || v6 === "::1" || /^f[cd]/.test(v6) || /^fe[89ab]/.test(v6) || /^ff/.test(v6) || /^::ffff:/.test(v6) || /^64:ff9b:/.test(v6);
+}
+
+async function checkWebhookTarget(url:URL){
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  if (ALERT_WEBHOOK_ALLOW.includes(host)) return;
+  let ips: string[];
+  if (/^[\d.]+$/.test(host) || host.includes(":")) ips = [host];
+  else {
+    const lookup = (t:"A" | "AAAA")=> Deno.resolveDns(host, t).catch(()=> [] as string[]);
+    ips = [...await lookup("A"), ...await lookup("AAAA")];
+    if (!ips.length) throw new HttpError(400, "webhook_url host does not resolve");
+  }
+  if (host === "localhost" || ips.some(privateAddress)) throw new HttpError(400, "webhook_url must not point to a private, loopback or link-local address");
+}
+
+async function alertFromBody(user:User, body:Record<string, unknown> | null | undefined): Promise<AlertRule> {
+  const product_id = body?.product_id ? String(body.product_id) : "";
+  const list_id = body?.list_id ? String(body.list_id) : "";
+  if (!!product_id === !!list_id) throw new HttpError(400, "Provide exactly one of product_id or list_id");
+  const target_price = body?.target_price != null ? Number(body.target_price) : null;
+  const drop_pct = body?.drop_pct != null ? Number(body.drop_pct) : null;
+  if ((target_price == null || !(target_price > 0)) && (drop_pct == null || !(drop_pct > 0 && drop_pct < 100))){
+    throw new HttpError(400, "Provide target_price > 0 or drop_pct between 0 and 100");
+  }
+  let webhook: URL;
+  try { webhook = new URL(String(body?.webhook_url ?? "")); } catch { throw new HttpError(400, "Invalid webhook_url"); }
+  if (!/^https?:$/.test(webhook.protocol)) throw new HttpError(400, "webhook_url must be http(s)");
+  await checkWebhookTarget(webhook);
+  return {
+    id: rid(),
+    user_id: user.id,
+    target: product_id ? { type: "product", product_id } : { type: "list", list_id },
+    scope: {
+      branch_id: body?.branch_id ? String(body.branch_id) : null,
+      address: body?.address ? cleanText(String(body.address), 200) : null,
+      radius_km: body?.radius_km != null ? Math.max(1, Number(body.radius_km)) : null
+    },
+    condition: { target_price: target_price && target_price > 0 ? target_price : null, drop_pct: drop_pct && drop_pct > 0 ? drop_pct : null },
+    webhook_url: webhook.toString(),
+    secret: randomToken(),
+    active: true,
+    baseline_price: null,
+    last_price: null,
+    last_checked_at: null,
+    last_triggered_at: null,
+    last_triggered_price: null,
+    next_check_at: 0,
+    created_at: new Date().toISOString()
+  };
+}
+
+function publicAlert(a:AlertRule){ const { secret: _s, ...rest } = a; return rest; }
+
+// Chains a product rule's scope allows: the branch's chain (from the product's observations), the
+// chains near an address, or all. List rules are scoped through their search instead.
+async function alertScopeChains(id:string, product_id:string, scope:AlertRule["scope"]): Promise<Set<string> | null> {
+  if (scope.branch_id){
+    for await (const e of kv.list<PriceObservation>({ prefix: ["price_obs", product_id] }, { reverse: true, limit: 200 })){
+      if (e.value.branch_id === scope.branch_id) return new Set([e.value.chain]);
     }
+    return null;
   }
-  return { value: null as number|null, source: "none" as const };
+  if (scope.address && scope.radius_km){
+    const { branches } = await listApprovedBranches(id, scope.address, scope.radius_km);
+    return new Set(branches.map(b => b.chain));
+  }
+  return null;
+}
+
+// Searches already run in this tick, by list + scope
+type AlertSearches = Map<string, Promise<SearchPayload>>;
+// What the webhook is told about the price: the product page it was read from, or the list's cheapest store
+type AlertDetail = { chain: string; product_url: string; verification: Proof } | { store_name: string; branch_id: string; branch_name: string };
+
+function alertClient(user_id:string): Client {
+  return { id: `user:${user_id}`, kind: "user", rate_per_min: 0, burst: 0, daily_llm_budget: ALERT_LLM_BUDGET };
+}
+
+// Current best price for the rule's target, through the same verification path as /api/search
+async function checkAlertPrice(id:string, a:AlertRule, searches:AlertSearches = new Map()): Promise<{ price:number; detail:AlertDetail } | null> {
+  if (a.target.type === "product"){
+    const p = await getProduct(a.target.product_id);
+    if (!p) return null;
+    const chains = await alertScopeChains(id, p.id, a.scope);
+    let best: { price:number; detail:AlertDetail } | null = null;
+    for (const [domain, url] of Object.entries(p.product_urls)){
+      const chain = retailerByDomain(domain)?.name_he ?? domain;
+      if (chains && !chains.has(chain)) continue;
+      const proof = await verifyItem({ product_url: url, name: p.name, brand: p.brand, size: p.size, unit_price: null });
+      // No quoted price to match against here: any price the adapter extracts counts. A page promo
+      // only counts when anyone buying one unit gets it (priceLine's public total: no club, no bundle).
+      if (proof.price_source === "none" || typeof proof.price_extracted !== "number") continue;
+      const price = priceLine({ verification: proof, unit_price: proof.price_extracted, quantity: 1 }, chain, [])?.public_total;
+      if (typeof price !== "number") continue;
+      if (!best || price < best.price) best = { price, detail: { chain, product_url: url, verification: proof } };
+    }
+    return best;
+  }
+  const list = (await kv.get<SavedList>(["lists", a.user_id, a.target.list_id])).value;
+  if (!list) return null;
+  const scoped = { ...list, address: a.scope.address ?? list.address, radius_km: a.scope.radius_km ?? list.radius_km };
+  const key = [list.id, list.updated_at, scoped.address, scoped.radius_km].join("|");
+  let search = searches.get(key);
+  if (!search){
+    search = withLlmBudget(alertClient(list.user_id), id, llmCallsMax({}), ()=> priceList(id, scoped));
+    searches.set(key, search);
+  }
+  const payload = await search;
+  const results = payload.status === "ok" ? payload.results.filter(r => !a.scope.branch_id || r.branch_id === a.scope.branch_id) : [];
+  const top = results[0];
+  return top && typeof top.total_price === "number" ? { price: top.total_price, detail: { store_name: top.store_name, branch_id: top.branch_id, branch_name: top.branch_name } } : null;
+}
+
+function alertMatches(a:AlertRule, price:number){
+  const { target_price, drop_pct } = a.condition;
+  const byTarget = target_price != null && price <= target_price;
+  const byDrop = drop_pct != null && a.baseline_price != null && price <= a.baseline_price * (1 - drop_pct / 100);
+  // Fire once per new low, not on every tick while the price stays down
+  const isNewLow = a.last_triggered_price == null || price < a.last_triggered_price;
+  return (byTarget || byDrop) && isNewLow;
+}
+
+async function deliverAlert(a:AlertRule, price:number, detail:AlertDetail, clock:Clock){
+  const body = JSON.stringify({
+    type: "price_drop",
+    alert_id: a.id,
+    target: a.target,
+    condition: a.condition,
+    price,
+    baseline_price: a.baseline_price,
+    detail,
+    triggered_at: new Date(clock.now()).toISOString()
+  });
+  const ts = String(Math.floor(clock.now() / 1000));
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(a.secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = toHex(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(`${ts}.${body}`)));
+  const d: AlertDelivery = { alert_id: a.id, at: new Date(clock.now()).toISOString(), status: 0, ok: false, price, error: null };
+  try{
+    await checkWebhookTarget(new URL(a.webhook_url));
+    const r = await retry(async ()=>{
+      const res = await fetchWithTimeout(a.webhook_url, {
+        method: "POST",
+        redirect: "manual",   // a redirect could lead past checkWebhookTarget
+        headers: { "content-type": "application/json", "user-agent": UA, "x-cartcompare-timestamp": ts, "x-cartcompare-signature": `sha256=${sig}` },
+        body
+      }, FETCH_TIMEOUT_MS);
+      if (res.status >= 500) throw new HttpError(res.status, `webhook ${res.status}`);
+      return res;
+    }, 3);
+    await r.body?.cancel();
+    d.status = r.status; d.ok = r.ok;
+  } catch(e){
+    d.status = e instanceof HttpError ? e.status : 0; d.error = (e instanceof Error && e.message) || String(e);
+  }
+  await kv.set(["alert_deliveries", a.id, d.at], d, { expireIn: 30 * 24 * 3600_000 });
+  return d;
+}
+
+async function runAlert(id:string, a:AlertRule, clock:Clock, searches:AlertSearches = new Map()){
+  const now = clock.now();
+  const res = { alert_id: a.id, checked: false, price: null as number|null, triggered: false, delivery: null as AlertDelivery|null };
+  try{
+    const cur = await checkAlertPrice(id, a, searches);
+    res.checked = true;
+    if (cur){
+      res.price = cur.price;
+      a.baseline_price ??= cur.price;
+      if (alertMatches(a, cur.price)){
+        res.delivery = await deliverAlert(a, cur.price, cur.detail, clock);
+        res.triggered = true;
+        a.last_triggered_at = new Date(now).toISOString();
+        a.last_triggered_price = cur.price;
+      }
+      a.last_price = cur.price;
+    }
+  } catch(e){
+    err(id, `alert check failed: ${a.id}`, String(e));
+  }
+  a.last_checked_at = new Date(now).toISOString();
+  a.next_check_at = now + (a.target.type === "list" ? ALERTS_LIST_INTERVAL_MIN : ALERTS_INTERVAL_MIN) * 60_000;
+  await kv.set(["alerts", a.id], a);
+  return res;
+}
+
+let ALERTS_RUNNING = false;
+async function runDueAlerts(clock:Clock = systemClock){
+  if (ALERTS_RUNNING) return [];
+  ALERTS_RUNNING = true;
+  const id = `alerts-${rid().slice(0, 8)}`;
+  const out: Awaited<ReturnType<typeof runAlert>>[] = [];
+  const searches: AlertSearches = new Map();
+  try{
+    for await (const e of kv.list<AlertRule>({ prefix: ["alerts"] })){
+      const a = e.value;
+      if (a.active && a.next_check_at <= clock.now()) out.push(await runAlert(id, a, clock, searches));
+    }
+    if (out.length) info(id, "alerts tick", { checked: out.length, triggered: out.filter(r => r.triggered).length });
+  } finally { ALERTS_RUNNING = false; }
+  return out;
+}
+
+function startAlertScheduler(){
+  if (ALERTS_SCHEDULER === "off") return;
+  if (ALERTS_SCHEDULER === "cron" && typeof Deno.cron === "function"){
+    Deno.cron("price-alerts", "* * * * *", ()=> runDueAlerts().then(()=>{}));
+  } else {
+    setInterval(()=> { runDueAlerts().catch(e => err("alerts", "tick failed", String(e))); }, 60_000);
+  }
+  info("startup", "alert scheduler started", { mode: ALERTS_SCHEDULER, interval_min: ALERTS_INTERVAL_MIN, list_interval_min: ALERTS_LIST_INTERVAL_MIN });
+}
+
+// ===== Shared reports (/r/:id + CSV / print / WhatsApp exports) =====
+// Every successful search is kept under a short share ID so results survive a reload:
+//   ["reports", id] -> ReportMeta, ["report_chunk", id, n] -> gzip JSON of the payload (KV values cap at 64 KiB)
+// All keys expire after REPORT_RETENTION_DAYS; debug output is never stored.
+type ReportMeta = {
+  id: string;
+  request_id: string;
+  created_at: string;
+  address: string;
+  list_text: string;
+  source: string;
+  mode: string;
+  fulfillment: FulfillmentMode;
+  stores: number;
+  chunks: number;
+};
+// What a report stores (and serves back as ?format=json): a search's payload without debug and
+// share, or a job's merged results
+type ReportPayload = Pick<SearchResult, "status" | "mode" | "fulfillment" | "results">
+  & Partial<Omit<SearchResult, "source" | "debug" | "share">> & { source: SearchResult["source"] | "job" };
+const REPORT_ID_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyz";   // no 0/o/1/l: IDs get read aloud and retyped
+
+function reportId(len = 8){
+  return [...crypto.getRandomValues(new Uint8Array(len))].map(b => REPORT_ID_ALPHABET[b % REPORT_ID_ALPHABET.length]).join("");
+}
+
+async function saveReport(id:string, body:Record<string, unknown>, payload:SearchNeedInput | (ReportPayload & Pick<SearchResult, "debug" | "share">)){
+  if (REPORT_RETENTION_DAYS <= 0 || payload?.status !== "ok") return null;
+  const { debug: _debug, share: _share, ...data } = payload;
+  const gz = await gzipBytes(JSON.stringify(data));
+  const expireIn = REPORT_RETENTION_DAYS * 86400_000;
+  for (let attempt = 0; attempt < 3; attempt++){
+    const meta: ReportMeta = {
+      id: reportId(), request_id: id, created_at: new Date().toISOString(),
+      address: cleanText(String(body?.address ?? ""), 200), list_text: String(body?.list_text ?? "").slice(0, 800),
+      source: payload.source, mode: payload.mode, fulfillment: payload.fulfillment ?? "in_store",
+      stores: (payload.results || []).length, chunks: Math.max(1, Math.ceil(gz.length / EVIDENCE_CHUNK))
+    };
+    const tx = kv.atomic().check({ key: ["reports", meta.id], versionstamp: null }).set(["reports", meta.id], meta, { expireIn });
+    for (let i = 0; i < meta.chunks; i++) tx.set(["report_chunk", meta.id, i], gz.slice(i * EVIDENCE_CHUNK, (i + 1) * EVIDENCE_CHUNK), { expireIn });
+    if ((await tx.commit()).ok){
+      info(id, "report saved", { report_id: meta.id, bytes: gz.length });
+      return meta;
+    }
+  }
+  err(id, "report id collisions, not saved");
+  return null;
+}
+
+async function loadReport(share:string){
+  const meta = (await kv.get<ReportMeta>(["reports", share])).value;
+  if (!meta) return null;
+  const parts: Uint8Array[] = [];
+  for await (const e of kv.list<Uint8Array>({ prefix: ["report_chunk", share] })) parts.push(e.value);
+  if (parts.length !== meta.chunks) return null;
+  const gz = new Uint8Array(parts.reduce((n, p)=> n + p.length, 0));
+  let o = 0;
+  for (const p of parts){ gz.set(p, o); o += p.length; }
+  return { meta, payload: JSON.parse(await gunzipText(gz)) as ReportPayload };
+}
+
+// Links returned with the search payload; base is PUBLIC_BASE_URL or the caller's origin
+function reportLinks(meta:{ id:string }, base:string){
+  const url = `${base}/r/${meta.id}`;
+  return { id: meta.id, url, csv: `${url}?format=csv`, text: `${url}?format=text`, json: `${url}?format=json` };
+}
+
+function shareBase(c:Context){ return PUBLIC_BASE_URL || new URL(c.req.url).origin; }
+
+// Stored payloads may predate fields; everything below reads defensively
+function reportTotal(s:StoreResult): number | null {
+  return s?.totals ? s.totals.total ?? null : s?.normalized_total ?? s?.total_price ?? null;
+}
+// Branch names usually repeat the chain ("רמי לוי חולון")
+function storeLabel(s:{ store_name?: string; branch_name?: string }){
+  const b = String(s?.branch_name || ""), n = String(s?.store_name || "");
+  return !b ? n : b.includes(n) ? b : `${n} ${b}`;
+}
+function shekel(n:unknown){ return typeof n === "number" && Number.isFinite(n) ? `₪${n.toFixed(2)}` : "—"; }
+
+const REPORT_CSV_COLUMNS = [
+  "rank","store_name","branch_id","branch_name","address","store_verified","coverage_ratio","store_total",
+  "list_index","list_item","name","brand","size","quantity","unit_price","line_total","substitution","price_scope",
+  "promo_text","product_url","source_domain","evidence_id",
+  "domain_ok","http_status","price_source","found_shekel","price_matches","price_extracted","name_match","verification_notes","constraint_violation"
+];
+
+function csvCell(v:unknown){
+  const s = v == null ? "" : typeof v === "object" ? JSON.stringify(v) : String(v);
+  // Quote when needed; a leading =,+,-,@ would run as a formula in spreadsheets (plain negative numbers stay numbers)
+  const safe = /^[=+\-@\t\r]/.test(s) && !/^-\d+(?:\.\d+)?$/.test(s) ? "'" + s : s;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+// One row per basket line of every store, with the server-side verification next to it
+function reportCsv(payload:ReportPayload){
+  const rows = [REPORT_CSV_COLUMNS.join(",")];
+  for (const s of payload.results || []){
+    const sv: Partial<StoreVerification> = s.store_verification || {};
+    for (const l of s.basket || []){
+      const v: Partial<Proof> = l.verification || {};
+      rows.push([
+        s.rank, s.store_name, s.branch_id, s.branch_name, s.address, sv.store_verified ?? null, sv.coverage_ratio ?? s.coverage, reportTotal(s),
+        l.list_index, v.list_item, l.name, l.brand, l.size, l.quantity, l.unit_price, l.line_total, l.substitution ?? false, l.price_scope,
+        l.promo_text, l.product_url, l.source_domain, l.evidence_id,
+        v.domain_ok, v.http_status, v.price_source, v.found_shekel, v.price_matches, v.price_extracted, v.name_match, v.notes, l.constraint_violation
+      ].map(csvCell).join(","));
+    }
+  }
+  // BOM so spreadsheet apps read the Hebrew as UTF-8
+  return "\uFEFF" + rows.join("\r\n") + "\r\n";
+}
+
+// Compact Hebrew summary for pasting into WhatsApp (*bold* is WhatsApp markup)
+function reportText(meta:ReportMeta, payload:ReportPayload, url:string){
+  const results = payload.results || [];
+  const best = results[0];
+  const out: string[] = [`🛒 *השוואת סל* — ${meta.address}`];
+  const plan = payload.split_plan;
+  if (meta.mode === "split" && plan){
+    out.push(`*${plan.stores.length > 1 ? `פיצול בין ${plan.stores.length} חנויות` : "חנות אחת"}: ${shekel(plan.total_cost)}*`);
+    for (const st of plan.stores) out.push(`• ${storeLabel(st)}: ${shekel(st.subtotal)} (${st.lines.length} פריטים)`);
+    if (plan.missing_items?.length) out.push(`חסרים: ${plan.missing_items.join(", ")}`);
+    if (plan.savings != null && plan.savings > 0) out.push(`חיסכון מול חנות אחת: ${shekel(plan.savings)}`);
+  } else if (best){
+    out.push(`*הכי זול: ${storeLabel(best)} — ${shekel(reportTotal(best))}*`);
+    if (best.address) out.push(`📍 ${best.address}`);
+    for (const l of best.basket || []){
+      const link = l.product_url ? ` ${l.product_url}` : "";
+      out.push(`• ${l.name}${l.quantity > 1 ? ` ×${l.quantity}` : ""}: ${shekel(l.line_total)}${l.substitution ? " (תחליף)" : ""}${link}`);
+    }
+  } else {
+    out.push("לא נמצאו חנויות מאומתות.");
+  }
+  const others = results.slice(1, 4).map(s => `${s.store_name} ${shekel(reportTotal(s))}`);
+  if (others.length && meta.mode !== "split") out.push(`חלופות: ${others.join(" | ")}`);
+  out.push(`הדו״ח המלא: ${url}`);
+  return out.join("\n");
+}
+
+// Print-optimized RTL report (also the share page); no scripts, links only
+function reportPage(meta:ReportMeta, payload:ReportPayload, base:string){
+  const links = reportLinks(meta, base);
+  const e = (v:unknown)=> escapeHtml(String(v ?? ""));
+  const link = (href:unknown, label:string)=> typeof href === "string" && /^https?:\/\//.test(href) ? `<a href="${e(href)}">${e(label)}</a>` : "";
+  const stores = (payload.results || []).map(s => {
+    const sv: Partial<StoreVerification> = s.store_verification || {};
+    const lines = (s.basket || []).map(l => {
+      const v: Partial<Proof> = l.verification || {};
+      return `<tr><td>${e(l.name)}${l.brand ? ` <span class="muted">${e(l.brand)}</span>` : ""}${l.substitution ? ' <span class="pill">תחליף</span>' : ""}</td>
+<td>${e(l.size || "")}</td><td>${e(l.quantity ?? "")}</td><td>${shekel(l.unit_price)}</td><td>${shekel(l.line_total)}</td>
+<td class="${v.notes === "OK" ? "good" : "bad"}">${e(v.notes || "—")}${l.constraint_violation ? ` • ${e(l.constraint_violation)}` : ""}</td>
+<td class="src">${link(l.product_url, l.source_domain || "מקור")}${l.evidence_id ? " • " + link(`${base}/api/evidence/${encodeURIComponent(l.evidence_id)}`, "הוכחה") : ""}</td></tr>`;
+    }).join("");
+    const t = s.totals;
+    return `<section class="store"><h2>#${e(s.rank ?? "?")} ${e(s.store_name)} — ${shekel(reportTotal(s))}</h2>
+<div class="muted">${e(s.branch_name || "")} • ${e(s.address || "")}${s.distance_km != null ? ` • ${e(s.distance_km)} ק״מ` : ""} • ${sv.store_verified ? "מאומת" : "לא מאומת"} • כיסוי ${Math.round((sv.coverage_ratio ?? s.coverage ?? 0) * 100)}%</div>
+${t ? `<div class="muted">פריטים ${shekel(t.items)} • משלוח/איסוף ${shekel(t.delivery)}${t.below_minimum ? ` • השלמה למינימום ${shekel(t.below_minimum)}` : ""}</div>` : ""}
+<table><thead><tr><th>מוצר</th><th>גודל</th><th>כמות</th><th>ליח'</th><th>סה״כ</th><th>אימות</th><th>מקור</th></tr></thead><tbody>${lines}</tbody></table></section>`;
+  }).join("");
+  const plan = payload.split_plan;
+  const split = meta.mode === "split" && plan ? `<section class="store"><h2>תוכנית פיצול — ${shekel(plan.total_cost)}</h2><ul>${
+    plan.stores.map(st => `<li>${e(storeLabel(st))}: ${shekel(st.subtotal)} — ${st.lines.map(l => e(l.name)).join(", ")}</li>`).join("")
+  }</ul>${plan.missing_items?.length ? `<div class="bad">חסרים: ${plan.missing_items.map(e).join(", ")}</div>` : ""}${plan.savings != null ? `<div class="muted">חיסכון מול חנות אחת: ${shekel(plan.savings)}</div>` : ""}</section>` : "";
+  return `<!doctype html><html lang="he" dir="rtl"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width,initial-scale=1">
+<title>השוואת סל — ${e(meta.address)}</title>
+<style>body{font-family:system-ui,sans-serif;margin:16px;color:#0d1321;font-size:14px}h1{font-size:20px;margin:0 0 4px}h2{font-size:16px;margin:0 0 4px}
+table{width:100%;border-collapse:collapse;margin-top:6px}th,td{padding:4px 6px;border-bottom:1px solid #e6edf7;text-align:start;vertical-align:top}
+.muted{color:#64748b;font-size:12px}.good{color:#15803d}.bad{color:#b91c1c}.pill{border:1px solid #cbd5e1;border-radius:999px;padding:0 6px;font-size:11px}
+.store{margin:14px 0;break-inside:avoid}.src a{direction:ltr}.actions a{margin-inline-end:10px}pre{white-space:pre-wrap;font:inherit}
+@media print{.actions{display:none}body{margin:0}a{color:inherit;text-decoration:none}.store{page-break-inside:avoid}}</style></head><body>
+<h1>השוואת סל — ${e(meta.address)}</h1>
+<div class="muted">נוצר ${e(meta.created_at)} • מקור ${e(meta.source)} • ${e(meta.fulfillment)} • מזהה ${e(meta.id)}</div>
+<div class="actions muted"><a href="${e(links.csv)}">CSV</a><a href="${e(links.text)}">טקסט לוואטסאפ</a><a href="${e(links.json)}">JSON</a></div>
+<h2>הרשימה</h2><pre>${e(meta.list_text)}</pre>
+${split}${stores || '<p class="muted">לא נמצאו חנויות מאומתות.</p>'}
+</body></html>`;
+}
+
+// ===== Search pipeline =====
+// Shared by POST /api/search and the SSE stream; `emit` reports progress as typed events
+type SearchEmit = (event:string, data:unknown) => void | Promise<void>;
+
+type ApprovedBranches = Awaited<ReturnType<typeof listApprovedBranches>>;
+
+// runSearch's reply: the fields a request is missing, or the ranked stores with the options they
+// were priced under. timings and coverage are added on the way out, share by the search routes.
+type SearchNeedInput = { status:"need_input"; needed:string[]; requestId:string; timings?:Omit<TraceSummary, "spans">; share?:ReturnType<typeof reportLinks> };
+type SearchResult = RankOptions & {
+  status: "ok";
+  source: "feed" | "web" | "none";
+  mode: "single" | "split";
+  fulfillment: FulfillmentMode;
+  travel_mode: TravelMode;
+  constraints?: ConstraintProfile;
+  repair?: RepairReport;
+  results: StoreResult[];
+  split_plan?: SplitPlan | null;
+  requestId: string;
+  openai_request_id?: string;
+  timings?: Omit<TraceSummary, "spans">;
+  coverage?: CoverageSummary;
+  debug?: Record<string, unknown>;
+  share?: ReturnType<typeof reportLinks>;
+};
+type SearchPayload = SearchNeedInput | SearchResult;
+
+// `approved` skips geocoding and the branch lookup (search jobs resolve them once per job)
+async function runSearch(id:string, body:Record<string, unknown>, emit:SearchEmit = ()=>{}, approved?:ApprovedBranches): Promise<SearchPayload> {
+  beginTrace(id);
+  const t0 = performance.now();
+  let payload: SearchPayload | null = null;
+  try{
+    payload = await searchPipeline(id, body, emit, approved);
+    return payload;
+  } finally {
+    const timings = endTrace(id);
+    METRICS.searches.inc({ source: payload?.status === "ok" ? payload.source : "none", status: payload?.status ?? "error" });
+    if (payload?.status === "ok") METRICS.searchSeconds.observe((performance.now() - t0) / 1000, { source: payload.source });
+    if (payload && timings){
+      const { spans: _s, ...totals } = timings;
+      payload.timings = totals;
+      if (payload.status === "ok") payload.coverage = coverageSummary(payload.results);
+    }
+    if (payload?.status === "ok" && payload.debug) payload.debug.timings = timings;
+  }
+}
+
+// Verified share of the basket across the stores a search returns
+type CoverageSummary = { stores:number; store_verified:number; mean_ratio:number | null; min_ratio:number | null };
+
+function coverageSummary(stores:StoreResult[]): CoverageSummary {
+  const ratios = stores.map(s => s.store_verification?.coverage_ratio).filter((r): r is number => typeof r === "number");
+  return {
+    stores: stores.length,
+    store_verified: stores.filter(s => s.store_verification?.store_verified).length,
+    mean_ratio: ratios.length ? Math.round(ratios.reduce((a, b)=> a + b, 0) / ratios.length * 1000) / 1000 : null,
+    min_ratio: ratios.length ? Math.min(...ratios) : null
+  };
+}
+
+async function searchPipeline(id:string, body:Record<string, unknown>, emit:SearchEmit, approved?:ApprovedBranches): Promise<SearchPayload> {
+  const address   = cleanText(String(body?.address ?? "").trim(), 200);
+  const radius_km = Math.max(1, Number(body?.radius_km ?? 0));
+  const list_raw = String(body?.list_text ?? "").slice(0, 800);
+  const list_text = cleanText(list_raw.trim(), 800);
+  const show_all  = !!body?.show_all;
+  const mode      = body?.mode === "split" ? "split" : "single";
+  const clubs     = parseClubs(body?.clubs);
+  const travel_mode = travelMode(body?.travel_mode);
+  const ranking   = rankOptions(body);
+  const fulfillment = fulfillmentMode(body?.fulfillment);
+  const constraints = constraintProfile(body?.constraints);
+  const chains    = Array.isArray(body?.chains) ? body.chains.map(String) : null;
+
+  const miss:string[]=[];
+  if(!address)   miss.push("address");
+  if(!radius_km) miss.push("radius_km");
+  if(!list_text) miss.push("list_text");
+  if (miss.length){
+    return { status:"need_input", needed: miss, requestId:id };
+  }
+  const list_items = parseList(list_raw);
+
+  // 1) Branches
+  const { branches, formatted_address, center } = approved
+    ? { ...approved, branches: approved.branches.filter(b => !chains || chains.includes(retailerByName(b.chain)?.id ?? "")) }
+    : await listApprovedBranches(id, address, radius_km, emit, travel_mode, chains);
+  const approvedMap = new Map<string, Branch>(branches.map(b => [b.branch_id, b]));
+  // A chain-scoped search with no branch of those chains nearby has nothing to ask the model
+  if (chains && !branches.length) return { status:"ok", source:"none", mode, fulfillment, travel_mode, ...ranking, results: [], requestId:id };
+
+  // 1b) Official price feeds: if they fully cover the basket at some branch, skip the model.
+  // Feeds carry no kashrut/allergen data, so profile constraints always go through the pages.
+  const fromFeeds = body?.use_feeds === false || constraintsActive(constraints) ? null : priceBasketFromFeeds(branches, list_items, clubs);
+  if (fromFeeds){
+    for (const s of fromFeeds) applyFulfillment(s, fulfillment);
+    const feedResults = show_all ? fromFeeds : fromFeeds.filter(s => s.store_verification?.store_verified);
+    await span(id, "ranking", ()=> rankStores(feedResults, ranking), { stores: feedResults.length });
+    info(id, "priced from feeds", { stores: feedResults.length });
+    for (const s of fromFeeds) await recordStoreObservations(id, s);
+    for (const s of feedResults) await emit("store_verified", s);
+    const payload: SearchResult = { status:"ok", source:"feed", mode, fulfillment, travel_mode, ...ranking, results: feedResults, requestId:id };
+    if (mode === "split") payload.split_plan = planSplitBasket(feedResults, list_items, center, approvedMap, splitOptions(body));
+    if (DEBUG || body?.include_debug) payload.debug = { approved_branches_count: branches.length, feed_stores: FEED_STORES.size };
+    return payload;
+  }
+
+  // 2) Prompt
+  const basePrompt =
+`address: ${address} (geocoded: ${formatted_address})
+radius_km: ${radius_km}
+list_text: ${list_text}
+
+PARSED_ITEMS (JSON):
+${JSON.stringify(list_items, null, 2)}
+
+${retailerPrompt()}
+
+APPROVED_BRANCHES (JSON):
+${JSON.stringify(branches, null, 2)}
+
+ENFORCEMENTS:
+- Use PARSED_ITEMS for each line's quantity, pack_qty and size (one basket line per item).
+- Choose branches ONLY from APPROVED_BRANCHES by branch_id.
+- Prices ONLY from ALLOWED_DOMAINS with "₪" in the page, or JSON-LD ILS.
+- Report promotions in promo_text, including club-only deals (user club memberships: ${JSON.stringify(clubs)}).
+- If exact item unavailable, use nearest substitute (substitution=true) with ppu and notes.
+- Return ONE function call (submit_results). No free text.${constraintsPrompt(constraints, list_items)}`;
+
+  // 3) LLM
+  await emit("model_started", { model: LLM_CHAIN[0].model, providers: LLM_CHAIN.map(p => p.name), stores: branches.length, items: list_items.length });
+  const first = await callLlm(PROMPT_SYSTEM, basePrompt, id);
+
+  // 4) Verify results
+  const parsed = first.parsed as { results?: StoreResult[] } | null;
+  if (!parsed?.results || !Array.isArray(parsed.results)) {
+    throw new HttpError(400, "Bad results shape from model", { openai_request_id: first.request_id });
+  }
+  await emit("model_finished", { openai_request_id: first.request_id ?? null, provider: first.provider, model: first.model, stores: parsed.results.length });
+
+  // 4a) Repair rounds for rejected / missing lines, before the final verification pass
+  const repair_rounds = repairRounds(body);
+  const proofs: LineProofs = new WeakMap();
+  const repair: RepairReport = repair_rounds > 0
+    ? await repairResults(id, parsed.results, approvedMap, list_items, basePrompt, { rounds: repair_rounds, emit, proofs, constraints })
+    : { max_rounds: 0, rounds: [], stopped: "disabled", unresolved: null };
+
+  const issues: string[] = [];
+  // Verify stores sequentially (per store), items inside are parallelized
+  for (const s of parsed.results) {
+    const v = await verifyStore(s, approvedMap, list_items, {
+      id,
+      clubs,
+      constraints,
+      proofs,
+      onItem: (idx, it, proof)=> emit("item_verified", {
+        branch_id: s.branch_id, index: idx, name: it?.name ?? null, product_url: it?.product_url ?? null, verification: proof
+      })
+    });
+    if (v.approved_branch) applyFulfillment(s, fulfillment);
+    if (!v.store_verified) issues.push(`store not verified (branch=${s.branch_id}): ${v.issues.join("; ")}`);
+    if (v.approved_branch) await recordStoreObservations(id, s);
+    await emit("store_verified", s);
+  }
+
+  const verifiedOnly = parsed.results.filter(s => s.store_verification?.store_verified);
+  const finalResults = show_all ? parsed.results : verifiedOnly;
+
+  // Sort & rank (price, or price + travel cost)
+  await span(id, "ranking", ()=> rankStores(finalResults, ranking), { stores: finalResults.length });
+
+  const payload: SearchResult = { status:"ok", source:"web", mode, fulfillment, travel_mode, ...ranking, constraints, repair, results: finalResults, requestId:id, openai_request_id: first.request_id ?? undefined };
+  if (DEBUG || body?.include_debug) payload.debug = {
+    issues,
+    approved_branches_count: branches.length,
+    llm: { provider: first.provider, model: first.model, usage: first.usage, attempts: first.attempts },
+    openai_raw_excerpt: JSON.stringify(first.raw).slice(0, SAFE_DEBUG_MAX)
+  };
+  if (mode === "split") payload.split_plan = planSplitBasket(verifiedOnly, list_items, center, approvedMap, splitOptions(body));
+  return payload;
+}
+
+// Error reply for any route: HttpError status (else 500), message and details
+function errorPayload(id:string, e:unknown, what = "handler"){
+  const status = (e instanceof HttpError ? e.status : 500) as ContentfulStatusCode;
+  const message = (e instanceof Error && e.message) || String(e);
+  const details = e instanceof HttpError ? e.payload : undefined;
+  const payload: { status:"error"; message:string; requestId:string; details?:unknown } = { status:"error", message, requestId:id };
+  if (details) payload.details = details;
+  (status >= 500 ? err : info)(id, `${what} failed`, { status, message, details });
+  return { status, payload };
+}
+
+// ===== API keys, rate limits, LLM budget =====
+// A client is an issued API key (X-API-Key header, or ?api_key= for EventSource) or, without one,
+// its IP. Each client gets an in-memory token bucket (per instance); LLM calls are counted per UTC
+// day in KV against the client's budget, and all calls (including alerts) against DAILY_LLM_BUDGET.
+// A model-backed request reserves its most calls (1 + repair rounds) against both budgets in one
+// atomic commit before it runs, and is settled to the calls it made when it ends (see withLlmBudget).
+// List alerts are charged to their owner as client `user:<user_id>` (see alertClient).
+// Limited requests get 429 + Retry-After. Keys are stored hashed:
+//   ["api_keys", id] -> ApiKey, ["api_key_hashes", sha256(key)] -> id
+//   ["client_usage", day, client_id, "requests" | "llm_calls"] -> KvU64
+//   ["llm_budget", day] -> KvU64   (model calls reserved or made today, all clients)
+type ApiKey = {
+  id: string;
+  name: string;
+  key_hash: string;
+  key_prefix: string;
+  rate_per_min: number;
+  burst: number;
+  daily_llm_budget: number;   // 0 = unlimited
+  disabled: boolean;
+  created_at: string;
+};
+type Client = { id: string; kind: "key" | "ip" | "user"; rate_per_min: number; burst: number; daily_llm_budget: number };
+
+const BUCKETS = new Map<string, { tokens: number; at: number }>();
+const CLIENTS = new WeakMap<Request, Client>();
+// Routes that may call the model; they are checked against the LLM budget up front
+const LLM_ROUTES = [/^\/api\/search(\/stream)?$/, /^\/api\/lists\/[^/]+\/reprice$/, /^\/api\/jobs$/];
+
+// Returns 0 when a token was taken, else seconds until one is available
+function takeToken(client:Client, now = Date.now()){
+  const rate = client.rate_per_min / 60_000;
+  if (BUCKETS.size > 10_000) for (const [k, v] of BUCKETS) if (now - v.at > 600_000) BUCKETS.delete(k);
+  const b = BUCKETS.get(client.id) ?? { tokens: client.burst, at: now };
+  b.tokens = Math.min(client.burst, b.tokens + (now - b.at) * rate);
+  b.at = now;
+  BUCKETS.set(client.id, b);
+  if (b.tokens >= 1){ b.tokens -= 1; return 0; }
+  return rate > 0 ? Math.ceil((1 - b.tokens) / rate / 1000) : 60;
+}
+
+function clientIp(c:Context): string {
+  if (TRUST_PROXY){
+    const fwd = c.req.header("x-forwarded-for")?.split(",")[0]?.trim();
+    if (fwd) return fwd;
+  }
+  return c.env?.remoteAddr?.hostname ?? "unknown";
+}
+
+// Admin routes stay reachable by address when API keys are required: the first key is made there
+async function resolveClient(c:Context, admin = false): Promise<Client> {
+  const raw = c.req.header("x-api-key") || c.req.query("api_key") || "";
+  if (raw){
+    const kid = (await kv.get<string>(["api_key_hashes", await sha256Hex(raw)])).value;
+    const key = kid ? (await kv.get<ApiKey>(["api_keys", kid])).value : null;
+    if (!key || key.disabled) throw new HttpError(401, "Invalid API key");
+    return { id: `key:${key.id}`, kind: "key", rate_per_min: key.rate_per_min, burst: key.burst, daily_llm_budget: key.daily_llm_budget };
+  }
+  if (API_KEYS_REQUIRED && !admin) throw new HttpError(401, "API key required (X-API-Key)");
+  return { id: `ip:${clientIp(c)}`, kind: "ip", rate_per_min: RATE_IP_PER_MIN, burst: RATE_IP_BURST, daily_llm_budget: ANON_LLM_BUDGET };
+}
+
+const utcDay = (t = Date.now())=> new Date(t).toISOString().slice(0, 10);
+function secondsToUtcMidnight(t = Date.now()){
+  const d = new Date(t); d.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((d.getTime() - t) / 1000);
+}
+
+async function clientUsage(day:string, client_id:string){
+  const [r, l] = await kv.getMany<[Deno.KvU64, Deno.KvU64]>([["client_usage", day, client_id, "requests"], ["client_usage", day, client_id, "llm_calls"]]);
+  return { requests: Number(r.value?.value ?? 0n), llm_calls: Number(l.value?.value ?? 0n) };
+}
+
+async function countUsage(client_id:string, field:"requests" | "llm_calls", n = 1){
+  if (n > 0) await kv.atomic().sum(["client_usage", utcDay(), client_id, field], BigInt(n)).commit();
+}
+
+const budgetExhausted = (message:string)=> new HttpError(429, message, { reason: "llm_budget", retry_after_s: secondsToUtcMidnight() });
+
+// Moves the client's and the global model-call counters by `delta` together; with `check`, an
+// increase past either budget throws 429 instead
+async function addLlmCalls(day:string, client:{ id:string; daily_llm_budget:number }, delta:number, check:boolean){
+  const keys: [Deno.KvKey, Deno.KvKey] = [["client_usage", day, client.id, "llm_calls"], ["llm_budget", day]];
+  for (let i = 0; i < 10; i++){
+    const [mine, all] = await kv.getMany<[Deno.KvU64, Deno.KvU64]>(keys);
+    const m = Number(mine.value?.value ?? 0n), a = Number(all.value?.value ?? 0n);
+    if (check && client.daily_llm_budget > 0 && m + delta > client.daily_llm_budget) throw budgetExhausted("Daily LLM budget exhausted for this client");
+    if (check && DAILY_LLM_BUDGET > 0 && a + delta > DAILY_LLM_BUDGET) throw budgetExhausted("Daily LLM budget exhausted");
+    const tx = kv.atomic().check(mine, all)
+      .set(keys[0], new Deno.KvU64(BigInt(Math.max(0, m + delta))))
+      .set(keys[1], new Deno.KvU64(BigInt(Math.max(0, a + delta))));
+    if ((await tx.commit()).ok) return;
+  }
+  throw new HttpError(503, "Usage counters busy, try again");
+}
+
+// Runs a model-backed request inside a reservation of `calls` model calls, then charges what it
+// actually called (LLM_CALLS, by request id), whether it returned or threw
+async function withLlmBudget<T>(client:Client | undefined, id:string, calls:number, fn:()=> Promise<T>): Promise<T> {
+  if (!client) return await fn();
+  const day = utcDay();
+  await addLlmCalls(day, client, calls, true);
+  try{ return await fn(); }
+  finally{
+    const used = takeLlmCalls(id);
+    if (used !== calls) await addLlmCalls(day, client, used - calls, false).catch(e => err(id, "usage write failed", String(e)));
+  }
+}
+
+// Most model calls a search can make: the first pass plus its repair rounds
+function llmCallsMax(body:Record<string, unknown> | null | undefined){ return 1 + repairRounds(body); }
+
+// Every model call today, whoever made it (see recordLlmUsage)
+async function llmCallsToday(){
+  let n = 0;
+  for await (const e of kv.list<LlmUsageTotals>({ prefix: ["llm_usage", utcDay()] })) n += e.value.requests + e.value.failures;
+  return n;
+}
+
+async function checkLlmBudget(client:Client){
+  if (client.daily_llm_budget > 0 && (await clientUsage(utcDay(), client.id)).llm_calls >= client.daily_llm_budget){
+    throw budgetExhausted("Daily LLM budget exhausted for this client");
+  }
+  if (DAILY_LLM_BUDGET > 0 && Number((await kv.get<Deno.KvU64>(["llm_budget", utcDay()])).value?.value ?? 0n) >= DAILY_LLM_BUDGET){
+    throw budgetExhausted("Daily LLM budget exhausted");
+  }
+}
+
+// Model calls a search made: the first pass plus one per repair round (feed-priced searches make none)
+function llmCallsOf(payload:SearchPayload){
+  return payload.status === "ok" && payload.source === "web" ? 1 + (payload.repair?.rounds.length ?? 0) : 0;
+}
+
+// The 429 from budgetExhausted, else null
+function budgetError(e:unknown){
+  return e instanceof HttpError && (e.payload as { reason?:string } | undefined)?.reason === "llm_budget"
+    ? { message: e.message, retry_after_s: (e.payload as { retry_after_s:number }).retry_after_s }
+    : null;
+}
+
+function tooMany(c:Context, id:string, message:string, retry_after_s:number){
+  return c.json({ status:"error", message, retry_after_s, requestId:id }, 429, { "retry-after": String(retry_after_s) });
+}
+
+async function requireAdmin(c:Context){
+  if (!ADMIN_TOKEN) throw new HttpError(403, "Admin API disabled (set ADMIN_TOKEN)");
+  const t = (c.req.header("authorization") || "").replace(/^Bearer\s+/i, "").trim();
+  if (await sha256Hex(t) !== await sha256Hex(ADMIN_TOKEN)) throw new HttpError(401, "Invalid admin token");
+}
+
+// Operator routes: open with DEBUG=true, otherwise they need the admin token
+async function requireDebugOrAdmin(c:Context){
+  if (DEBUG) return;
+  if (!ADMIN_TOKEN) throw new HttpError(403, `Enable DEBUG=true or set ADMIN_TOKEN to use ${c.req.path}`);
+  await requireAdmin(c);
+}
+
+function publicKey(k:ApiKey){ const { key_hash: _h, ...rest } = k; return rest; }
+
+function keyLimits(body:Record<string, unknown> | null | undefined, prev?:ApiKey){
+  const n = (v:unknown, d:number)=> v != null && v !== "" && Number.isFinite(Number(v)) && Number(v) >= 0 ? Number(v) : d;
+  return {
+    rate_per_min: n(body?.rate_per_min, prev?.rate_per_min ?? RATE_KEY_PER_MIN),
+    burst: Math.max(1, n(body?.burst, prev?.burst ?? RATE_KEY_BURST)),
+    daily_llm_budget: n(body?.daily_llm_budget, prev?.daily_llm_budget ?? KEY_LLM_BUDGET)
+  };
+}
+
+// ===== Search jobs (chunked, resumable large-basket searches) =====
+// POST /api/jobs splits the list into chunks of JOB_CHUNK_ITEMS and queues one task per chunk and
+// enabled chain; a task is a chain-scoped runSearch over that chunk. The address is geocoded and
+// the branches looked up once, by the job's first task (job.request.approved), and each task
+// reserves its model calls against the client's budget. All state is in KV, so a restart picks
+// up where the worker stopped:
+//   ["jobs", id] -> Job, ["jobs_active", id] -> true   (worker index, dropped when the job ends)
+//   ["job_tasks", id, n] -> JobTask, ["job_results", id, n, part] -> gzip JSON of the task's stores
+// Failed tasks are retried after JOB_RETRY_MS (doubling) up to JOB_MAX_ATTEMPTS; a job that ends
+// with failed tasks is "partial". GET /api/jobs/:id merges finished tasks per branch into the
+// submit_results shape at any point. Finished jobs expire after JOB_RETENTION_DAYS.
+type JobStatus = "queued" | "running" | "done" | "partial" | "failed";
+// Search options shared by every task; the rest pass through to runSearch as the client sent them
+type JobRequest = {
+  address: string;
+  radius_km: unknown;
+  clubs: string[];
+  fulfillment: FulfillmentMode;
+  travel_mode: unknown;
+  rank_by: unknown;
+  cost_per_minute: unknown;
+  use_feeds: unknown;
+  repair_rounds: unknown;
+  show_all: boolean;
+  constraints: ConstraintProfile;
+  approved?: ApprovedBranches;   // resolved by the first task
+};
+type Job = {
+  id: string;
+  client: Client;                // charged for the model calls, budget reserved per task
+  status: JobStatus;
+  request: JobRequest;
+  items: ListItem[];
+  chunks: number[][];            // list indexes per chunk
+  chains: string[];              // retailer ids enabled at submit time
+  tasks: number;
+  done: number;
+  failed: number;
+  llm_calls: number;
+  report_id: string | null;      // saved report (/r/:id) once the job ends
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+};
+type JobTask = {
+  job_id: string;
+  n: number;
+  chunk: number;
+  chain: string;
+  status: "queued" | "running" | "done" | "failed";
+  attempts: number;
+  next_at: number;
+  lease_until: number;
+  source: string | null;         // feed | web | none
+  stores: number;
+  error: string | null;
+  updated_at: string;
+};
+
+function newJob(body:Record<string, unknown>, client:Client){
+  const address = cleanText(String(body?.address ?? "").trim(), 200);
+  const items = parseList(String(body?.list_text ?? "").slice(0, 6000));
+  const needed = [...(address ? [] : ["address"]), ...(items.length ? [] : ["list_text"])];
+  if (needed.length) throw new HttpError(400, "Missing fields", { needed });
+  if (items.length > JOB_MAX_ITEMS) throw new HttpError(400, `Too many items (max ${JOB_MAX_ITEMS})`, { items: items.length });
+  const chains = enabledRetailers().map(r => r.id);
+  if (!chains.length) throw new HttpError(400, "No enabled chains");
+
+  // Chunks also stay under the pipeline's 800-character list_text cap
+  const chunks: number[][] = [];
+  let cur: number[] = [], len = 0;
+  items.forEach((it, i)=> {
+    if (cur.length && (cur.length >= JOB_CHUNK_ITEMS || len + it.raw.length + 1 > 800)){ chunks.push(cur); cur = []; len = 0; }
+    cur.push(i); len += it.raw.length + 1;
+  });
+  if (cur.length) chunks.push(cur);
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: rid(), client, status: "queued",
+    request: {
+      address, radius_km: body?.radius_km, clubs: parseClubs(body?.clubs), fulfillment: fulfillmentMode(body?.fulfillment),
+      travel_mode: body?.travel_mode, rank_by: body?.rank_by, cost_per_minute: body?.cost_per_minute, use_feeds: body?.use_feeds,
+      repair_rounds: body?.repair_rounds, show_all: !!body?.show_all, constraints: constraintProfile(body?.constraints)
+    },
+    items, chunks, chains,
+    tasks: chunks.length * chains.length, done: 0, failed: 0, llm_calls: 0, report_id: null,
+    created_at: now, updated_at: now, finished_at: null
+  };
+  const tasks: JobTask[] = chunks.flatMap((_, chunk)=> chains.map((chain, k)=> ({
+    job_id: job.id, n: chunk * chains.length + k, chunk, chain, status: "queued" as const, attempts: 0,
+    next_at: 0, lease_until: 0, source: null, stores: 0, error: null, updated_at: now
+  })));
+  return { job, tasks };
+}
+
+// Task results can pass the 64 KiB KV value cap, so they are stored gzipped in parts
+async function putJobResult(job_id:string, n:number, stores:StoreResult[]){
+  const gz = await gzipBytes(JSON.stringify(stores));
+  const tx = kv.atomic();
+  for (let i = 0; i * EVIDENCE_CHUNK < gz.length; i++){
+    tx.set(["job_results", job_id, n, i], gz.slice(i * EVIDENCE_CHUNK, (i + 1) * EVIDENCE_CHUNK), { expireIn: JOB_RETENTION_DAYS * 86400_000 });
+  }
+  await tx.commit();
+}
+
+async function getJobResult(job_id:string, n:number): Promise<StoreResult[]> {
+  const parts: Uint8Array[] = [];
+  for await (const e of kv.list<Uint8Array>({ prefix: ["job_results", job_id, n] })) parts.push(e.value);
+  if (!parts.length) return [];
+  const gz = new Uint8Array(parts.reduce((k, p)=> k + p.length, 0));
+  let o = 0;
+  for (const p of parts){ gz.set(p, o); o += p.length; }
+  return JSON.parse(await gunzipText(gz));
+}
+
+async function runJobTask(job:Job, entry:Deno.KvEntry<JobTask>, clock:Clock){
+  const now = clock.now();
+  const claimed: JobTask = { ...entry.value, status: "running", attempts: entry.value.attempts + 1, lease_until: now + JOB_LEASE_MS, updated_at: new Date(now).toISOString() };
+  if (!(await kv.atomic().check(entry).set(entry.key, claimed).commit()).ok) return;   // another worker has it
+  if (job.status === "queued") job.status = "running";
+  const id = `job-${job.id.slice(0, 8)}-${claimed.n}`;
+  const chunk = job.chunks[claimed.chunk];
+  let next: JobTask;
+  try{
+    if (!enabledRetailers().some(r => r.id === claimed.chain)){
+      next = { ...claimed, status: "done", source: "none", error: "chain disabled" };
+    } else {
+      // Saved with the job below, so later tasks (and retries) reuse it
+      job.request.approved ??= await listApprovedBranches(id, job.request.address, Math.max(1, Number(job.request.radius_km ?? 0)), undefined, travelMode(job.request.travel_mode), job.chains);
+      const { approved, ...request } = job.request;
+      const body = { ...request, list_text: chunk.map(i => job.items[i].raw).join("\n"), chains: [claimed.chain], show_all: true, mode: "single" };
+      const payload = await withLlmBudget(job.client, id, llmCallsMax(body), ()=> runSearch(id, body, undefined, approved));
+      job.llm_calls += llmCallsOf(payload);
+      if (payload.status !== "ok") throw new HttpError(400, `search returned ${payload.status}`, payload.needed);
+      // List indexes come back relative to the chunk
+      for (const s of payload.results) for (const l of s.basket || []) l.list_index = typeof l.list_index === "number" ? chunk[l.list_index] ?? null : null;
+      await putJobResult(job.id, claimed.n, payload.results);
+      next = { ...claimed, status: "done", source: payload.source, stores: payload.results.length, error: null };
+    }
+    job.done++;
+  }catch(e){
+    const budget = budgetError(e);
+    if (budget){
+      // Out of our own model budget: wait for it without spending an attempt (a provider's 429 is a failure like any other)
+      next = { ...claimed, status: "queued", attempts: claimed.attempts - 1, next_at: clock.now() + budget.retry_after_s * 1000, error: budget.message };
+    } else {
+      const final = claimed.attempts >= JOB_MAX_ATTEMPTS;
+      next = { ...claimed, status: final ? "failed" : "queued", next_at: clock.now() + JOB_RETRY_MS * 2 ** (claimed.attempts - 1), error: (e instanceof Error && e.message) || String(e) };
+      if (final) job.failed++;
+      err(id, "job task failed", { attempt: claimed.attempts, final, message: next.error });
+    }
+  }
+  next.updated_at = new Date().toISOString();
+  job.updated_at = next.updated_at;
+  await kv.atomic().set(entry.key, next).set(["jobs", job.id], job).commit();
+}
+
+// A branch's stores from every chunk, summed into one
+type MergedStore = StoreResult & { total_price: number; normalized_total: number; job_chunks: number[]; store_verification: StoreVerification };
+
+// Per branch: every chunk's lines in one store, totals and verification summed, then ranked like a search
+async function mergeJobResults(job:Job, tasks:JobTask[]){
+  const byBranch = new Map<string, MergedStore>();
+  for (const t of tasks){
+    if (t.status !== "done" || !t.stores) continue;
+    for (const s of await getJobResult(job.id, t.n)){
+      if (!s.store_verification?.approved_branch) continue;   // outside the task's chain
+      let m = byBranch.get(s.branch_id);
+      if (!m){
+        const { totals: _t, fulfillment: _f, price_check: _p, rank: _r, ...rest } = s;
+        m = { ...rest, rank: 0, basket: [], total_price: 0, normalized_total: 0, job_chunks: [],
+          store_verification: { approved_branch: true, verified_items: 0, total_items: 0, coverage_ratio: 0, store_verified: false, issues: [] } };
+        byBranch.set(s.branch_id, m);
+      }
+      const v: Partial<StoreVerification> = s.store_verification || {};
+      m.basket.push(...(s.basket || []));
+      m.total_price += s.total_price ?? 0;
+      m.normalized_total += s.normalized_total ?? s.total_price ?? 0;
+      m.store_verification.verified_items += v.verified_items ?? 0;
+      m.store_verification.total_items += v.total_items ?? 0;
+      m.store_verification.issues.push(...(v.issues || []));
+      m.job_chunks.push(t.chunk);
+    }
+  }
+  const results = [...byBranch.values()].map(m => {
+    const v = m.store_verification;
+    m.basket.sort((a, b)=> (a.list_index ?? 1e9) - (b.list_index ?? 1e9));
+    m.total_price = round2(m.total_price);
+    m.normalized_total = round2(m.normalized_total);
+    // Items a store never priced (chunk failed or line missing) count against it
+    v.total_items = Math.max(v.total_items, job.items.length);
+    v.coverage_ratio = v.total_items ? v.verified_items / v.total_items : 0;
+    v.store_verified = v.approved_branch && v.coverage_ratio >= COVERAGE_THRESHOLD;
+    m.coverage = new Set(m.basket.map(l => l.list_index).filter(i => typeof i === "number")).size / job.items.length;
+    m.job_chunks.sort((a, b)=> a - b);
+    summarizePriceScope(m);
+    applyFulfillment(m, job.request.fulfillment);
+    return m;
+  });
+  const shown = job.request.show_all ? results : results.filter(s => s.store_verification.store_verified);
+  rankStores(shown, rankOptions(job.request));
+  return { results: shown };
 }
 
-async function fetchText(url:string){
-  const res = await retry(async ()=>{
-    const r = await fetchWithTimeout(url, { redirect:"follow", headers:{"user-agent":UA} }, FETCH_TIMEOUT_MS);
-    return r;
-  }, 2);
-  const txt = await res.text().catch(()=> "");
-  return { status: res.status, text: txt.slice(0, 300_000) };
+async function jobTasks(job_id:string){
+  const out: JobTask[] = [];
+  for await (const e of kv.list<JobTask>({ prefix: ["job_tasks", job_id] })) out.push(e.value);
+  return out;
 }
 
-function approxEq(a:number,b:number,pct=0.05){
-  const d = Math.abs(a-b); return d <= Math.max(1, b*pct);
+async function finishJob(job:Job, tasks:JobTask[]){
+  job.status = job.done === 0 ? "failed" : job.failed ? "partial" : "done";
+  job.finished_at = job.updated_at = new Date().toISOString();
+  if (job.done){
+    const merged = await mergeJobResults(job, tasks);
+    const report = await saveReport(job.id, { address: job.request.address, list_text: job.items.map(i => i.raw).join("\n") },
+      { status: "ok", source: "job", mode: "single", fulfillment: job.request.fulfillment, results: merged.results })
+      .catch((e)=>{ err(job.id, "report save failed", String(e)); return null; });
+    job.report_id = report?.id ?? null;
+  }
+  const expireIn = JOB_RETENTION_DAYS * 86400_000;
+  const tx = kv.atomic().set(["jobs", job.id], job, { expireIn }).delete(["jobs_active", job.id]);
+  for (const t of tasks) tx.set(["job_tasks", job.id, t.n], t, { expireIn });
+  await tx.commit();
+  info(job.id, "job finished", { status: job.status, tasks: job.tasks, done: job.done, failed: job.failed, llm_calls: job.llm_calls });
 }
 
-async function verifyItem(it:any){
-  const res:any = {
-    domain_ok:false, http_status:0, price_extracted:null as number|null, price_source:"none",
-    found_shekel:false, price_matches:false, name_match:0, notes:""
-  };
+// One pass over active jobs: runs every due task (queued and past next_at, or running with an
+// expired lease), then closes jobs whose tasks all ended. Tasks run one at a time.
+let JOBS_RUNNING = false;
+async function runJobs(clock:Clock = systemClock){
+  if (JOBS_RUNNING) return 0;
+  JOBS_RUNNING = true;
+  let ran = 0;
+  try{
+    for await (const a of kv.list({ prefix: ["jobs_active"] })){
+      const job_id = String(a.key[1]);
+      const job = (await kv.get<Job>(["jobs", job_id])).value;
+      if (!job){ await kv.delete(a.key); continue; }
+      for await (const e of kv.list<JobTask>({ prefix: ["job_tasks", job_id] })){
+        const t = e.value, now = clock.now();
+        if ((t.status === "queued" && t.next_at <= now) || (t.status === "running" && t.lease_until <= now)){
+          await runJobTask(job, e, clock);
+          ran++;
+        }
+      }
+      const tasks = await jobTasks(job_id);
+      if (tasks.every(t => t.status === "done" || t.status === "failed")) await finishJob(job, tasks);
+    }
+  } finally { JOBS_RUNNING = false; }
+  return ran;
+}
 
-  if (!hostOK(it.product_url)){ res.notes = "domain not allowed"; return res; }
-  res.domain_ok = true;
+function kickJobs(){
+  if (JOBS_WORKER === "off") return;
+  runJobs().catch(e => err("jobs", "worker pass failed", String(e)));
+}
 
-  const { status, text } = await fetchText(it.product_url);
-  res.http_status = status;
-  if (status !== 200){ res.notes = "non-200"; return res; }
+// After a restart nothing of ours is running: release leases left by the previous process
+async function startJobWorker(){
+  for await (const a of kv.list({ prefix: ["jobs_active"] })){
+    for await (const e of kv.list<JobTask>({ prefix: ["job_tasks", String(a.key[1])] })){
+      if (e.value.status === "running") await kv.set(e.key, { ...e.value, status: "queued", attempts: e.value.attempts - 1, next_at: 0, lease_until: 0 });
+    }
+  }
+  setInterval(kickJobs, 5000);
+  kickJobs();
+}
 
-  const { value, source } = extractPriceFromHtml(text);
-  res.price_extracted = value;
-  res.price_source = source;
-  res.found_shekel = source === "shekel-sign";
+function publicJob(job:Job){
+  const { client: _c, items, chunks, ...rest } = job;
+  return { ...rest, items: items.length, chunks: chunks.length };
+}
 
-  const target = typeof it.unit_price === "number" ? it.unit_price : null;
-  if (target != null && value != null){ res.price_matches = approxEq(value, target, 0.05); }
+// ===== API =====
+// Count every request by matched route pattern (not raw path) to keep label cardinality bounded
+app.use("*", async (c, next)=>{
+  await next();
+  const route = c.req.routePath && c.req.routePath !== "*" && c.req.routePath !== "/*" ? c.req.routePath : "unmatched";
+  METRICS.http.inc({ method: c.req.method, route, status: c.res.status });
+});
 
-  const needle = [it.brand, it.size, it.name].filter(Boolean).join(" ").replace(/\s+/g," ").trim();
-  if (needle){
-    const lc = text.toLowerCase();
-    const toks = needle.toLowerCase().split(" ").filter(t=>t.length>1);
-    const hits = toks.filter(tok => lc.includes(tok)).length;
-    res.name_match = hits / Math.max(1, toks.length);
+app.use("/api/*", cors({
+  origin: CORS_ORIGINS.includes("*") ? "*" : CORS_ORIGINS,
+  allowMethods: ["GET","POST","PUT","DELETE","OPTIONS"],
+  allowHeaders: ["Content-Type","Authorization","X-API-Key"],
+  exposeHeaders: ["Retry-After"]
+}));
+
+// Quota: identify the client, take a rate-limit token, and check the LLM budget on model routes.
+// Admin routes are limited too, before their token check, so the token cannot be guessed at speed.
+app.use("/api/*", async (c, next)=>{
+  if (c.req.method === "OPTIONS" || c.req.path === "/api/health") return next();
+  const id = rid();
+  try{
+    const client = await resolveClient(c, c.req.path.startsWith("/api/admin/"));
+    CLIENTS.set(c.req.raw, client);
+    const wait = takeToken(client);
+    if (wait > 0){ METRICS.rateLimited.inc({ reason: client.kind === "key" ? "key_rate" : "ip_rate" }); return tooMany(c, id, "Rate limit exceeded", wait); }
+    await countUsage(client.id, "requests");
+    if (LLM_ROUTES.some(re => re.test(c.req.path))) await checkLlmBudget(client);
+  }catch(e){
+    const budget = budgetError(e);
+    if (budget){ METRICS.rateLimited.inc({ reason: "llm_budget" }); return tooMany(c, id, budget.message, budget.retry_after_s); }
+    return apiError(c, id, e);
   }
+  await next();
+});
 
-  res.notes = (res.domain_ok && res.http_status===200 && (res.found_shekel || res.price_source==="json-ld") && (res.price_matches || value==null))
-    ? "OK" : "mismatch";
-  return res;
-}
+// Admin: API keys and per-client usage (Authorization: Bearer <ADMIN_TOKEN>)
+app.post("/api/admin/keys", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const body = await c.req.json().catch(()=> ({}));
+    const raw = "ck_" + randomToken();
+    const key: ApiKey = {
+      id: rid(),
+      name: cleanText(String(body?.name ?? ""), 80) || "unnamed",
+      key_hash: await sha256Hex(raw),
+      key_prefix: raw.slice(0, 10),
+      ...keyLimits(body),
+      disabled: false,
+      created_at: new Date().toISOString()
+    };
+    await kv.atomic().set(["api_keys", key.id], key).set(["api_key_hashes", key.key_hash], key.id).commit();
+    // The raw key is returned only here
+    return c.json({ status:"ok", key: publicKey(key), api_key: raw, requestId:id }, 201);
+  }catch(e){ return apiError(c, id, e); }
+});
 
-async function verifyStore(store:any, approvedBranches: Map<string, any>){
-  const v:any = { approved_branch:false, verified_items:0, total_items:0, coverage_ratio:0, store_verified:false, issues:[] as string[] };
-  if (!approvedBranches.has(store.branch_id)){ v.issues.push("branch_id not approved"); return v; }
-  v.approved_branch = true;
+app.get("/api/admin/keys", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const day = utcDay();
+    const keys: (ReturnType<typeof publicKey> & { today: Awaited<ReturnType<typeof clientUsage>> })[] = [];
+    for await (const e of kv.list<ApiKey>({ prefix: ["api_keys"] })){
+      keys.push({ ...publicKey(e.value), today: await clientUsage(day, `key:${e.value.id}`) });
+    }
+    return c.json({ status:"ok", day, keys, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-  v.total_items = Array.isArray(store.basket) ? store.basket.length : 0;
+app.put("/api/admin/keys/:id", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const prev = (await kv.get<ApiKey>(["api_keys", c.req.param("id")])).value;
+    if (!prev) throw new HttpError(404, "API key not found");
+    const body = await c.req.json().catch(()=> ({}));
+    const key: ApiKey = { ...prev, ...keyLimits(body, prev), name: body?.name != null ? cleanText(String(body.name), 80) || prev.name : prev.name, disabled: body?.disabled != null ? !!body.disabled : prev.disabled };
+    await kv.set(["api_keys", key.id], key);
+    return c.json({ status:"ok", key: publicKey(key), requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-  const items = (store.basket||[]);
-  const proofs = await mapPool(items, VERIFY_CONCURRENCY, async (it)=> verifyItem(it));
+app.delete("/api/admin/keys/:id", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const key = (await kv.get<ApiKey>(["api_keys", c.req.param("id")])).value;
+    if (!key) throw new HttpError(404, "API key not found");
+    await kv.atomic().delete(["api_keys", key.id]).delete(["api_key_hashes", key.key_hash]).commit();
+    return c.json({ status:"ok", deleted: key.id, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-  proofs.forEach((proof, idx)=>{
-    const it = items[idx];
-    it.verification = proof;
-    if (proof.domain_ok && proof.http_status===200 && (proof.found_shekel || proof.price_source==="json-ld")) {
-      if (typeof proof.price_extracted === "number" && typeof it.unit_price === "number") {
-        if (proof.price_matches) v.verified_items++;
-      } else {
-        v.verified_items++;
-      }
-    } else {
-      v.issues.push(`item rejected: ${it.product_url || it.name}`);
-    }
-  });
+// Retailers: switch a chain on/off at runtime (persists across restarts and registry reloads)
+app.put("/api/admin/chains/:id", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const r = RETAILERS.find(x => x.id === c.req.param("id"));
+    if (!r) throw new HttpError(404, "Chain not found");
+    const body = await c.req.json().catch(()=> ({}));
+    if (typeof body?.enabled !== "boolean") throw new HttpError(400, "enabled (boolean) is required");
+    await kv.set(["retailer_overrides", r.id], <RetailerOverride>{ enabled: body.enabled, updated_at: new Date().toISOString() });
+    r.enabled = body.enabled;
+    RETAILERS_STATUS.overrides = (await Array.fromAsync(kv.list({ prefix: ["retailer_overrides"] }))).length;
+    info(id, `chain ${r.id} ${r.enabled ? "enabled" : "disabled"}`);
+    return c.json({ status:"ok", chain: r, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-  v.coverage_ratio = v.total_items ? v.verified_items / v.total_items : 0;
-  v.store_verified = v.approved_branch && v.coverage_ratio >= COVERAGE_THRESHOLD;
+// Back to the registry file's `enabled` value
+app.delete("/api/admin/chains/:id/override", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    if (!RETAILERS.some(x => x.id === c.req.param("id"))) throw new HttpError(404, "Chain not found");
+    await kv.delete(["retailer_overrides", c.req.param("id")]);
+    await loadRetailers(id);
+    return c.json({ status:"ok", chain: RETAILERS.find(x => x.id === c.req.param("id")), requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-  const approved = approvedBranches.get(store.branch_id)!;
-  store.address = approved.address;
-  store.branch_name = approved.branch_name;
-  store.branch_url = approved.branch_url;
-  store.distance_km = approved.distance_km;
+app.post("/api/admin/chains/reload", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    await loadRetailers(id);
+    if (RETAILERS_STATUS.last_error) throw new HttpError(400, "Invalid retailer registry", { problems: RETAILERS_STATUS.last_error });
+    return c.json({ status:"ok", chains: RETAILERS.length, ...RETAILERS_STATUS, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-  store.store_verification = v;
-  return v;
-}
+// Requests and model calls per client (key:<id> or ip:<addr>) per UTC day, newest first
+app.get("/api/admin/usage", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const days = Math.min(90, Math.max(1, Number(c.req.query("days") || "7")));
+    const since = utcDay(Date.now() - (days - 1) * 86400_000);
+    const byDay = new Map<string, Record<string, { requests:number; llm_calls:number }>>();
+    for await (const e of kv.list<Deno.KvU64>({ start: ["client_usage", since], end: ["client_usage", "\uffff"] })){
+      const [, day, client, field] = e.key as string[];
+      const clients = byDay.get(day) ?? {};
+      (clients[client] ??= { requests: 0, llm_calls: 0 })[field as "requests" | "llm_calls"] = Number(e.value.value);
+      byDay.set(day, clients);
+    }
+    const daily = [...byDay.entries()].sort((a, b)=> b[0].localeCompare(a[0])).map(([date, clients])=> ({
+      date,
+      requests: Object.values(clients).reduce((s, x)=> s + x.requests, 0),
+      client_llm_calls: Object.values(clients).reduce((s, x)=> s + x.llm_calls, 0),
+      clients
+    }));
+    return c.json({ status:"ok", days, since, llm_calls_today: await llmCallsToday(), daily_llm_budget: DAILY_LLM_BUDGET || null, daily, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
 
-// ===== API =====
-app.use("/api/*", cors({
-  origin: "*",
-  allowMethods: ["GET","POST","OPTIONS"],
-  allowHeaders: ["Content-Type","Authorization"]
-}));
+// Prometheus scrape endpoint (Authorization: Bearer <METRICS_TOKEN> when set)
+app.get("/metrics", async (c)=>{
+  if (METRICS_TOKEN){
+    const t = (c.req.header("authorization") || "").replace(/^Bearer\s+/i, "").trim();
+    if (await sha256Hex(t) !== await sha256Hex(METRICS_TOKEN)) return c.text("unauthorized\n", 401);
+  }
+  return c.body(renderMetrics(), 200, { "content-type": "text/plain; version=0.0.4; charset=utf-8" });
+});
+
+// Retailer registry (read-only)
+app.get("/api/chains", (c)=>{
+  return c.json({ status:"ok", chains: RETAILERS, ...RETAILERS_STATUS, requestId: rid() });
+});
 
 app.get("/api/health", (c)=>{
   const id = rid();
   const payload = {
     ok: true,
     model: OPENAI_MODEL,
+    llm_providers: LLM_CHAIN.map(p => `${p.name}:${p.model}`),
     temperature: Number.isFinite(OPENAI_TEMP) ? OPENAI_TEMP : 0,
     has_openai_key: !!OPENAI_KEY,
     has_google_places_key: !!PLACES_KEY,
+    provider_mode: PROVIDERS.mode,
     debug_enabled: DEBUG,
+    feeds: { dir: FEEDS_DIR || null, stores: FEED_STORES.size, ...FEED_STATS },
+    chains: { total: RETAILERS.length, enabled: enabledRetailers().length, loaded_at: RETAILERS_STATUS.loaded_at, last_error: RETAILERS_STATUS.last_error },
+    cache: { ...CACHE_STATS, inflight: CACHE_INFLIGHT.size, ttl_ms: CACHE_TTL_MS },
     requestId: id
   };
   info(id, "GET /api/health", payload);
   return c.json(payload);
 });
 
+// LLM token usage + estimated cost, daily totals (UTC days), newest first (admin token)
+type LlmUsageDay = LlmUsageTotals & { date: string; by_model: (LlmUsageTotals & { provider: string; model: string })[] };
+app.get("/api/usage", async (c)=>{
+  const id = rid();
+  try{
+    await requireAdmin(c);
+    const days = Math.min(90, Math.max(1, Number(c.req.query("days") || "7")));
+    const since = new Date(Date.now() - (days - 1) * 86400_000).toISOString().slice(0, 10);
+    const byDay = new Map<string, LlmUsageDay>();
+    for await (const e of kv.list<LlmUsageTotals>({ start: ["llm_usage", since], end: ["llm_usage", "\uffff"] })){
+      const [, date, provider, model] = e.key as string[];
+      const d = byDay.get(date) ?? { date, requests: 0, failures: 0, input_tokens: 0, output_tokens: 0, web_search_calls: 0, cost_usd: 0, by_model: [] };
+      for (const k of ["requests", "failures", "input_tokens", "output_tokens", "web_search_calls"] as const) d[k] += e.value[k];
+      d.cost_usd = Math.round((d.cost_usd + e.value.cost_usd) * 1e6) / 1e6;
+      d.by_model.push({ provider, model, ...e.value });
+      byDay.set(date, d);
+    }
+    const daily = [...byDay.values()].sort((a, b)=> b.date.localeCompare(a.date));
+    const total_cost_usd = Math.round(daily.reduce((s, d)=> s + d.cost_usd, 0) * 1e6) / 1e6;
+    return c.json({ status:"ok", days, since, total_cost_usd, daily, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+// Deterministic list parsing (no model call)
+app.post("/api/parse_list", async (c)=>{
+  const id = rid();
+  const body = await c.req.json().catch(()=> ({}));
+  const list_text = String(body?.list_text ?? "").slice(0, 800);
+  if (!list_text.trim()) return c.json({ status:"need_input", needed:["list_text"], requestId:id }, 400);
+  return c.json({ status:"ok", items: parseList(list_text), requestId:id });
+});
+
+// Accounts + saved lists
+function apiError(c:Context, id:string, e:unknown){
+  const { status, payload } = errorPayload(id, e);
+  return c.json(payload, status);
+}
+
+// Request body as a JSON object: unparseable JSON reads as {} (the handler then reports the
+// missing fields), any other JSON value (null, a number, an array) is a 400
+async function jsonBody(c:Context): Promise<Record<string, unknown>> {
+  const body: unknown = await c.req.json().catch(()=> ({}));
+  if (!body || typeof body !== "object" || Array.isArray(body)) throw new HttpError(400, "Request body must be a JSON object");
+  return body as Record<string, unknown>;
+}
+
+app.post("/api/users", async (c)=>{
+  const id = rid();
+  try{
+    const body = await c.req.json().catch(()=> ({}));
+    const user = await createUser(String(body?.email ?? ""), String(body?.password ?? ""));
+    const token = await issueApiToken(user.id);
+    info(id, "user created", { user_id: user.id });
+    return c.json({ status:"ok", user: { id: user.id, email: user.email }, token, requestId:id }, 201);
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.post("/api/auth/token", async (c)=>{
+  const id = rid();
+  try{
+    const body = await c.req.json().catch(()=> ({}));
+    const user = await loginUser(String(body?.email ?? ""), String(body?.password ?? ""));
+    return c.json({ status:"ok", user: { id: user.id, email: user.email }, token: await issueApiToken(user.id), requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+// Constraint profile applied to the user's searches, reprices and list alerts
+app.get("/api/users/me/profile", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const profile = (await kv.get<ConstraintProfile>(["user_profiles", user.id])).value ?? EMPTY_PROFILE;
+    return c.json({ status:"ok", profile, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.put("/api/users/me/profile", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const body = await c.req.json().catch(()=> ({}));
+    // Indexes belong to one list, so they are never saved on the profile
+    const profile: ConstraintProfile = { ...constraintProfile(body), no_substitution: [] };
+    await kv.set(["user_profiles", user.id], profile);
+    return c.json({ status:"ok", profile, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.get("/api/lists", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const lists: SavedList[] = [];
+    for await (const e of kv.list<SavedList>({ prefix: ["lists", user.id] })) lists.push(e.value);
+    return c.json({ status:"ok", lists, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.post("/api/lists", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const body = await c.req.json().catch(()=> ({}));
+    const now = new Date().toISOString();
+    const list: SavedList = { id: rid(), user_id: user.id, ...listFromBody(body), created_at: now, updated_at: now };
+    await kv.set(["lists", user.id, list.id], list);
+    return c.json({ status:"ok", list, requestId:id }, 201);
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.get("/api/lists/:id", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const list = await getList(user, c.req.param("id"));
+    return c.json({ status:"ok", list, last_snapshot: await latestSnapshot(list.id), requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.put("/api/lists/:id", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const prev = await getList(user, c.req.param("id"));
+    const body = await c.req.json().catch(()=> ({}));
+    const list: SavedList = { ...prev, ...listFromBody(body, prev), updated_at: new Date().toISOString() };
+    await kv.set(["lists", user.id, list.id], list);
+    return c.json({ status:"ok", list, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.delete("/api/lists/:id", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const list = await getList(user, c.req.param("id"));
+    await kv.delete(["lists", user.id, list.id]);
+    for await (const e of kv.list({ prefix: ["list_snapshots", list.id] })) await kv.delete(e.key);
+    return c.json({ status:"ok", deleted: list.id, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.get("/api/lists/:id/snapshots", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const list = await getList(user, c.req.param("id"));
+    const limit = Math.min(100, Math.max(1, Number(c.req.query("limit") || "20")));
+    const snapshots: ListSnapshot[] = [];
+    for await (const e of kv.list<ListSnapshot>({ prefix: ["list_snapshots", list.id] }, { reverse: true, limit })) snapshots.push(e.value);
+    return c.json({ status:"ok", list_id: list.id, snapshots, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+// Re-run the search pipeline for a saved list and keep the result as a snapshot
+app.post("/api/lists/:id/reprice", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const list = await getList(user, c.req.param("id"));
+    const body = await c.req.json().catch(()=> ({}));
+    info(id, "POST /api/lists/:id/reprice", { list_id: list.id });
+    const { payload, snapshot, previous } = await withLlmBudget(CLIENTS.get(c.req.raw), id, llmCallsMax(body), ()=> repriceList(id, list, body));
+    if (!snapshot) return c.json(payload, payload.status === "need_input" ? 400 : 200);
+    const prevTotal = previous?.cheapest?.total_price;
+    const curTotal = snapshot.cheapest?.total_price;
+    return c.json({
+      ...payload,
+      snapshot_at: snapshot.at,
+      comparison: previous ? {
+        previous_at: previous.at,
+        previous_cheapest: previous.cheapest,
+        current_cheapest: snapshot.cheapest,
+        delta: typeof prevTotal === "number" && typeof curTotal === "number" ? round2(curTotal - prevTotal) : null,
+        same_store: !!previous.cheapest && previous.cheapest.branch_id === snapshot.cheapest?.branch_id
+      } : null
+    });
+  }catch(e){
+    const budget = budgetError(e);
+    if (budget) return tooMany(c, id, budget.message, budget.retry_after_s);
+    return apiError(c, id, e);
+  }
+});
+
+// Price-drop alerts
+app.post("/api/alerts", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const body = await c.req.json().catch(()=> ({}));
+    const a = await alertFromBody(user, body);
+    if (a.target.type === "product" && !await getProduct(a.target.product_id)) throw new HttpError(404, "Product not found");
+    if (a.target.type === "list") await getList(user, a.target.list_id);
+    await kv.atomic().set(["alerts", a.id], a).set(["user_alerts", user.id, a.id], true).commit();
+    // The secret is returned only here; receivers use it to verify x-cartcompare-signature
+    return c.json({ status:"ok", alert: publicAlert(a), secret: a.secret, requestId:id }, 201);
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.get("/api/alerts", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const alerts: ReturnType<typeof publicAlert>[] = [];
+    for await (const e of kv.list({ prefix: ["user_alerts", user.id] })){
+      const a = (await kv.get<AlertRule>(["alerts", String(e.key[2])])).value;
+      if (a) alerts.push(publicAlert(a));
+    }
+    return c.json({ status:"ok", alerts, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+async function getAlert(user:User, alert_id:string){
+  const a = (await kv.get<AlertRule>(["alerts", alert_id])).value;
+  if (!a || a.user_id !== user.id) throw new HttpError(404, "Alert not found");
+  return a;
+}
+
+app.get("/api/alerts/:id", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const a = await getAlert(user, c.req.param("id"));
+    const deliveries: AlertDelivery[] = [];
+    for await (const e of kv.list<AlertDelivery>({ prefix: ["alert_deliveries", a.id] }, { reverse: true, limit: 20 })) deliveries.push(e.value);
+    return c.json({ status:"ok", alert: publicAlert(a), deliveries, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+app.delete("/api/alerts/:id", async (c)=>{
+  const id = rid();
+  try{
+    const user = await authUser(c.req.header("authorization"));
+    const a = await getAlert(user, c.req.param("id"));
+    await kv.atomic().delete(["alerts", a.id]).delete(["user_alerts", user.id, a.id]).commit();
+    return c.json({ status:"ok", deleted: a.id, requestId:id });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+// DEBUG or admin: run one scheduler tick now, optionally at a fixed time (?now=ISO) as a fake clock
+app.post("/api/alerts/run", async (c)=>{
+  const id = rid();
+  try{ await requireDebugOrAdmin(c); }catch(e){ return apiError(c, id, e); }
+  const at = c.req.query("now") ? Date.parse(c.req.query("now")!) : Date.now();
+  if (!Number.isFinite(at)) return c.json({ status:"error", message:"Invalid now", requestId:id }, 400);
+  const results = await runDueAlerts({ now: ()=> at });
+  return c.json({ status:"ok", now: new Date(at).toISOString(), results, requestId:id });
+});
+
+// Evidence: ?format=json (metadata), ?format=raw (archived HTML as text), default HTML viewer
+app.get("/api/evidence/:id", async (c)=>{
+  const id = rid();
+  const ev = await loadEvidence(c.req.param("id"));
+  if (!ev) return c.json({ status:"not_found", message:"Unknown or pruned evidence", requestId:id }, 404);
+  const format = c.req.query("format");
+  if (format === "json") return c.json({ status:"ok", evidence: ev.meta, intact: ev.intact, requestId:id });
+  if (ev.html == null) return c.json({ status:"error", message:"Snapshot data is incomplete", evidence: ev.meta, requestId:id }, 500);
+  if (format === "raw") return c.text(ev.html, 200, { "content-type": "text/plain; charset=utf-8" });
+  return c.html(evidencePage(ev.meta, ev.html, ev.intact), 200, {
+    "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'; img-src data:; frame-src 'self'"
+  });
+});
+
+// DEBUG or admin: prune now, optionally as of ?now=ISO
+app.post("/api/evidence/prune", async (c)=>{
+  const id = rid();
+  try{ await requireDebugOrAdmin(c); }catch(e){ return apiError(c, id, e); }
+  const at = c.req.query("now") ? Date.parse(c.req.query("now")!) : Date.now();
+  if (!Number.isFinite(at)) return c.json({ status:"error", message:"Invalid now", requestId:id }, 400);
+  return c.json({ status:"ok", pruned: await pruneEvidence(at), retention_days: EVIDENCE_RETENTION_DAYS, requestId:id });
+});
+
+// Catalog
+app.get("/api/products/:id", async (c)=>{
+  const id = rid();
+  const p = await getProduct(c.req.param("id"));
+  if (!p) return c.json({ status:"not_found", message:"Unknown product", requestId:id }, 404);
+  return c.json({ status:"ok", product: p, requestId:id });
+});
+
+app.get("/api/products/:id/history", async (c)=>{
+  const id = rid();
+  const p = await getProduct(c.req.param("id"));
+  if (!p) return c.json({ status:"not_found", message:"Unknown product", requestId:id }, 404);
+  const limit = Math.min(5000, Math.max(1, Number(c.req.query("limit") || "1000")));
+  const history = await productHistory(p.id, { chain: c.req.query("chain") || undefined, since: c.req.query("since") || undefined, limit });
+  return c.json({ status:"ok", product: p, ...history, requestId:id });
+});
+
+// Barcode scan: price one product across the approved branches near an address
+app.get("/api/barcode/:ean", async (c)=>{
+  const id = rid();
+  try{
+    const ean = c.req.param("ean").trim();
+    if (!validEan13(ean)) throw new HttpError(400, "Invalid EAN-13 barcode", { ean });
+    const address = cleanText(c.req.query("address") || "", 200);
+    if (!address) throw new HttpError(400, "Missing address");
+    const radius_km = Math.max(1, Number(c.req.query("radius_km") || "5"));
+    const clubs = parseClubs(c.req.query("clubs"));
+
+    const product = await getProduct(ean);
+    const feedItem = feedItemByCode(ean);
+    if (!product && !feedItem) return c.json({ status:"not_found", message:"Unknown barcode", ean, requestId:id }, 404);
+
+    const { center, formatted_address, branches } = await listApprovedBranches(id, address, radius_km, undefined, travelMode(c.req.query("travel_mode")));
+    const prices = await priceBarcodeAtBranches(ean, product, branches, clubs);
+    const priced = prices.filter(p => p.effective_price != null);
+    info(id, "barcode lookup", { ean, branches: branches.length, priced: priced.length });
+    return c.json({
+      status:"ok",
+      ean,
+      product: product ?? { id: ean, barcode: ean, name: feedItem!.name, brand: feedItem!.manufacturer, size: feedItem!.quantity != null ? `${fmtNum(feedItem!.quantity)} ${feedItem!.unit ?? ""}`.trim() : null },
+      center, formatted_address,
+      cheapest: priced[0] ?? null,
+      prices,
+      requestId:id
+    });
+  }catch(e){ return apiError(c, id, e); }
+});
+
+// Feeds status / reload (reload needs DEBUG or the admin token; {"sync":true} first downloads from the chains' feed_urls)
+app.get("/api/feeds", (c)=>{
+  const stores = [...FEED_STORES.values()].map(s => ({
+    chain: s.chain, chain_id: s.chain_id, store_id: s.store_id, name: s.name, city: s.city,
+    items: s.items.size, promos: s.promos.length
+  }));
+  return c.json({ status:"ok", dir: FEEDS_DIR || null, ...FEED_STATS, stores, requestId: rid() });
+});
+
+app.post("/api/feeds/reload", async (c)=>{
+  const id = rid();
+  try{ await requireDebugOrAdmin(c); }catch(e){ return apiError(c, id, e); }
+  if (!FEEDS_DIR) return c.json({ status:"error", message:"FEEDS_DIR not set", requestId:id }, 400);
+  const body = await c.req.json().catch(()=> ({}));
+  const synced = body?.sync === true ? await syncFeeds(id, FEEDS_DIR) : null;
+  await loadFeedsFromDir(id, FEEDS_DIR);
+  return c.json({ status:"ok", stores: FEED_STORES.size, ...FEED_STATS, synced, requestId:id });
+});
+
 // DEBUG: Preview prompt + branches (no model call)
 app.get("/api/llm_preview", async (c)=>{
   if (!DEBUG) return c.json({ status:"forbidden", message:"Enable DEBUG=true to use /api/llm_preview" }, 403);
   const id = rid();
   const address = cleanText(c.req.query("address") || "");
   const radius_km = Number(c.req.query("radius_km") || "5");
-  const list_text = cleanText(c.req.query("list_text") || "");
+  const list_raw = c.req.query("list_text") || "";
+  const list_text = cleanText(list_raw);
   if (!address || !list_text || !radius_km){
     return c.json({ status:"need_input", needed:["address","radius_km","list_text"], requestId:id }, 400);
   }
-  const { branches, formatted_address } = await listApprovedBranches(id, address, radius_km);
+  const list_items = parseList(list_raw);
+  const { branches, formatted_address } = await listApprovedBranches(id, address, radius_km, undefined, travelMode(c.req.query("travel_mode")));
   const userPrompt =
 `address: ${address} (geocoded: ${formatted_address})
 radius_km: ${radius_km}
 list_text: ${list_text}
 
-ALLOWED_DOMAINS: ${JSON.stringify([...APPROVED_DOMAINS])}
+PARSED_ITEMS (JSON):
+${JSON.stringify(list_items, null, 2)}
+
+${retailerPrompt()}
 
 APPROVED_BRANCHES (JSON):
 ${JSON.stringify(branches, null, 2)}
 
 INSTRUCTIONS:
+- Use PARSED_ITEMS for each line's quantity, pack_qty and size (one basket line per item).
 - Choose branches ONLY from APPROVED_BRANCHES by branch_id.
 - Prices ONLY from ALLOWED_DOMAINS with "₪" in page or JSON-LD ILS.
 - If no exact pack, use substitute (substitution=true) with ppu and notes.
@@ -527,82 +5203,102 @@ INSTRUCTIONS:
 app.post("/api/search", async (c)=>{
   const id = rid();
   try{
-    const body = await c.req.json().catch(()=> ({}));
+    const body = await jsonBody(c);
     info(id, "POST /api/search body", body);
+    body.constraints = await requestConstraints(c.req.header("authorization"), body);
+    const payload = await withLlmBudget(CLIENTS.get(c.req.raw), id, llmCallsMax(body), ()=> runSearch(id, body));
+    // The search is done and charged: a report that fails to save only costs the share link
+    const report = await saveReport(id, body, payload).catch((e)=>{ err(id, "report save failed", String(e)); return null; });
+    if (report) payload.share = reportLinks(report, shareBase(c));
+    return c.json(payload, payload.status === "need_input" ? 400 : 200);
+  }catch(e){
+    const budget = budgetError(e);
+    if (budget) return tooMany(c, id, budget.message, budget.retry_after_s);
+    const { status, payload } = errorPayload(id, e, "search handler");
+    return c.json(payload, status);
+  }
+});
 
-    let address   = cleanText(String(body?.address ?? "").trim(), 200);
-    const radius_km = Math.max(1, Number(body?.radius_km ?? 0));
-    let list_text = cleanText(String(body?.list_text ?? "").trim(), 800);
-    const show_all  = !!body?.show_all;
-
-    const miss:string[]=[];
-    if(!address)   miss.push("address");
-    if(!radius_km) miss.push("radius_km");
-    if(!list_text) miss.push("list_text");
-    if (miss.length){
-      return c.json({ status:"need_input", needed: miss, requestId:id }, 400);
-    }
-
-    // 1) Branches
-    const { branches, formatted_address } = await listApprovedBranches(id, address, radius_km);
-    const approvedMap = new Map<string, Branch>(branches.map(b => [b.branch_id, b]));
-
-    // 2) Prompt
-    const basePrompt =
-`address: ${address} (geocoded: ${formatted_address})
-radius_km: ${radius_km}
-list_text: ${list_text}
-
-ALLOWED_DOMAINS: ${JSON.stringify([...APPROVED_DOMAINS])}
-
-APPROVED_BRANCHES (JSON):
-${JSON.stringify(branches, null, 2)}
-
-ENFORCEMENTS:
-- Choose branches ONLY from APPROVED_BRANCHES by branch_id.
-- Prices ONLY from ALLOWED_DOMAINS with "₪" in the page, or JSON-LD ILS.
-- If exact item unavailable, use nearest substitute (substitution=true) with ppu and notes.
-- Return ONE function call (submit_results). No free text.`;
-
-    // 3) LLM
-    const first = await callOpenAIOnce(PROMPT_SYSTEM, basePrompt, id);
-
-    // 4) Verify results
-    const parsed = first.parsed as any;
-    if (!parsed?.results || !Array.isArray(parsed.results)) {
-      throw new HttpError(400, "Bad results shape from model", { openai_request_id: first.request_id });
-    }
-
-    const issues: string[] = [];
-    // Verify stores sequentially (per store), items inside are parallelized
-    for (const s of parsed.results) {
-      const v = await verifyStore(s, approvedMap);
-      if (!v.store_verified) issues.push(`store not verified (branch=${s.branch_id}): ${v.issues.join("; ")}`);
+// Streaming search (SSE): geocoded, branches, model_started, model_finished,
+// repair_started / repair_finished (per round), item_verified, store_verified,
+// then final (or need_input / failed)
+app.get("/api/search/stream", (c)=>{
+  const id = rid();
+  const q = (k:string)=> c.req.query(k);
+  const flag = (k:string)=> q(k) === "1" || q(k) === "true";
+  const body = {
+    address: q("address"), radius_km: q("radius_km"), list_text: q("list_text"),
+    show_all: flag("show_all"), include_debug: flag("include_debug"), use_feeds: q("use_feeds") !== "0",
+    mode: q("mode"), clubs: q("clubs"), max_stores: q("max_stores"), cost_per_km: q("cost_per_km"), extra_store_cost: q("extra_store_cost"),
+    travel_mode: q("travel_mode"), rank_by: q("rank_by"), cost_per_minute: q("cost_per_minute"), repair_rounds: q("repair_rounds"),
+    fulfillment: q("fulfillment"), constraints: q("constraints")
+  };
+  info(id, "GET /api/search/stream", body);
+  return streamSSE(c, async (stream)=>{
+    const emit: SearchEmit = (event, data)=> stream.writeSSE({ event, data: JSON.stringify(data) });
+    try{
+      // EventSource cannot send headers: a user token may come as ?token=
+      const constraints = await requestConstraints(c.req.header("authorization") || (q("token") ? `Bearer ${q("token")}` : undefined), body);
+      const payload = await withLlmBudget(CLIENTS.get(c.req.raw), id, llmCallsMax(body), ()=> runSearch(id, { ...body, constraints }, emit));
+      const report = await saveReport(id, body, payload).catch((e)=>{ err(id, "report save failed", String(e)); return null; });
+      if (report) payload.share = reportLinks(report, shareBase(c));
+      await emit(payload.status === "need_input" ? "need_input" : "final", payload);
+    }catch(e){
+      const { status, payload } = errorPayload(id, e, "search handler");
+      await emit("failed", { ...payload, http_status: status });
     }
+  });
+});
 
-    const verifiedOnly = parsed.results.filter((s:any)=> s.store_verification?.store_verified);
-    const finalResults = show_all ? parsed.results : verifiedOnly;
+// Jobs: queue a large-basket search; poll GET /api/jobs/:id for progress and merged results
+app.post("/api/jobs", async (c)=>{
+  const id = rid();
+  try{
+    const body = await jsonBody(c);
+    body.constraints = await requestConstraints(c.req.header("authorization"), body);
+    const client = CLIENTS.get(c.req.raw) ?? await resolveClient(c);
+    const { job, tasks } = newJob(body, client);
+    const tx = kv.atomic().set(["jobs", job.id], job).set(["jobs_active", job.id], true);
+    for (const t of tasks) tx.set(["job_tasks", job.id, t.n], t);
+    await tx.commit();
+    info(id, "job queued", { job_id: job.id, items: job.items.length, chunks: job.chunks.length, tasks: job.tasks });
+    kickJobs();
+    return c.json({ status:"ok", job: publicJob(job), status_url: `/api/jobs/${job.id}`, requestId:id }, 202);
+  }catch(e){ return apiError(c, id, e); }
+});
 
-    // Sort & rank
-    finalResults.sort((a:any,b:any)=> (a.total_price??999999) - (b.total_price??999999));
-    finalResults.forEach((r:any,i:number)=> r.rank = i+1);
+app.get("/api/jobs/:id", async (c)=>{
+  const id = rid();
+  const job = (await kv.get<Job>(["jobs", c.req.param("id")])).value;
+  if (!job) return c.json({ status:"not_found", message:"Unknown or expired job", requestId:id }, 404);
+  const tasks = await jobTasks(job.id);
+  const pending = tasks.filter(t => t.status === "queued" || t.status === "running").length;
+  return c.json({
+    status:"ok",
+    job: publicJob(job),
+    progress: { tasks: job.tasks, done: job.done, failed: job.failed, pending, percent: job.tasks ? Math.round(100 * (job.tasks - pending) / job.tasks) : 100 },
+    tasks: tasks.map(t => ({ n: t.n, chunk: t.chunk, chain: t.chain, status: t.status, attempts: t.attempts, source: t.source, stores: t.stores, error: t.error,
+      retry_at: t.status === "queued" && t.next_at > Date.now() ? new Date(t.next_at).toISOString() : null })),
+    result: job.done ? { ...(await mergeJobResults(job, tasks)), partial: pending > 0 || job.failed > 0 } : null,
+    share: job.report_id ? reportLinks({ id: job.report_id }, shareBase(c)) : null,
+    requestId:id
+  });
+});
 
-    const payload:any = { status:"ok", results: finalResults, requestId:id, openai_request_id: first.request_id ?? undefined };
-    if (DEBUG || body?.include_debug) payload.debug = {
-      issues,
-      approved_branches_count: branches.length,
-      openai_raw_excerpt: JSON.stringify(first.raw).slice(0, SAFE_DEBUG_MAX)
-    };
-    return c.json(payload, 200);
-
-  }catch(e:any){
-    const status = typeof e?.status === "number" ? e.status : 500;
-    const message = e?.message || String(e);
-    const payload:any = { status:"error", message, requestId:id };
-    if (e?.payload) payload.details = e.payload;
-    err(id, "search handler failed", { status, message, details: e?.payload });
-    return c.json(payload, status);
-  }
+// Shared report: default print-ready HTML; ?format=csv | text (WhatsApp) | json
+app.get("/r/:id", async (c)=>{
+  const id = rid();
+  const report = await loadReport(c.req.param("id"));
+  if (!report) return c.json({ status:"not_found", message:"Unknown or expired report", requestId:id }, 404);
+  const { meta, payload } = report;
+  const base = shareBase(c);
+  const format = c.req.query("format");
+  if (format === "json") return c.json({ status:"ok", report: meta, share: reportLinks(meta, base), payload, requestId:id });
+  if (format === "csv") return c.body(reportCsv(payload), 200, {
+    "content-type": "text/csv; charset=utf-8", "content-disposition": `attachment; filename="cartcompare-${meta.id}.csv"`
+  });
+  if (format === "text") return c.text(reportText(meta, payload, reportLinks(meta, base).url), 200, { "content-type": "text/plain; charset=utf-8" });
+  return c.html(reportPage(meta, payload, base), 200, { "content-security-policy": "default-src 'none'; style-src 'unsafe-inline'" });
 });
 
 // ===== Static UI =====
@@ -632,4 +5328,17 @@ app.notFound(async (c)=>{
   return c.newResponse(html ?? "<p>Not found</p>", 404, { "content-type":"text/html; charset=utf-8" });
 });
 
-Deno.serve(app.fetch);
\ No newline at end of file
+await loadRetailers("startup");
+if (FEEDS_DIR) await loadFeedsFromDir("startup", FEEDS_DIR).catch((e)=> err("startup", "feeds load failed", String(e)));
+
+// Imported by the tests (tests/*_test.ts): no watchers, schedulers or listener
+if (import.meta.main){
+  watchRetailers();
+  startAlertScheduler();
+  startEvidencePruning();
+  await startJobWorker();
+  Deno.serve(app.fetch);
+}
+
+export { RETAILER_ADAPTERS, adapterFor, app, archiveEvidence, csvCell, downloadFeedFile, feedFileLinks, kv, llmCallsToday, mergeJobResults, parseList, parseListLine, planSplitBasket, pruneEvidence, pruneFeedFiles, rankStores, runDueAlerts, runJobs, snapshotResults };
+export type { Job, JobTask, SearchResult, SplitPlan, StoreResult };
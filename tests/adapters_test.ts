@@ -0,0 +1,117 @@
+import { assert, assertEquals } from "./assert.ts";
+import { srv } from "./helpers.ts";
+
+const PAGES = new URL("../fixtures/mock/pages/", import.meta.url);
+const pages: Record<string, string> = JSON.parse(await Deno.readTextFile(new URL("../pages.json", PAGES)));
+
+// Saved product pages -> what the chain's adapter has to read from them
+const CASES: { url:string; retailer:string; expect:Record<string, unknown> }[] = [
+  {
+    url: "https://www.shufersal.co.il/online/he/p/P_7290000066318", retailer: "shufersal",
+    // The related-products price (3.90) and the delivery fee must not be picked up
+    expect: { source: "markup", price: 7.9, promo_price: 6.95, promo_text: "2 ב- 13.90 ₪ מחיר ליחידה 6.95 ₪", unit_price: 5.27, unit_price_text: "₪5.27 / 1 ליטר", in_stock: true, barcode: "7290000066318", title: "קוקה קולה 1.5 ליטר" }
+  },
+  {
+    url: "https://www.shufersal.co.il/online/he/p/P_7290000042442", retailer: "shufersal",
+    expect: { source: "markup", price: 6.9, promo_price: null, promo_text: null, unit_price: 6.9, in_stock: true, barcode: "7290000042442", title: "חלב תנובה 3% 1 ליטר" }
+  },
+  {
+    url: "https://www.rami-levy.co.il/he/online/search?item=7290000066318", retailer: "rami-levy",
+    expect: { source: "embedded-json", price: 7.5, promo_price: 7, promo_text: "2 ב-₪14", unit_price: 7.5, unit_price_text: "₪7.5 / ליטר", in_stock: true, barcode: "7290000066318", title: "קוקה קולה 1.5 ליטר" }
+  },
+  {
+    url: "https://www.rami-levy.co.il/he/online/search?item=7290000042442", retailer: "rami-levy",
+    expect: { source: "embedded-json", price: 6.5, promo_price: null, promo_text: null, in_stock: true, barcode: "7290000042442", title: "חלב תנובה 3% 1 ליטר" }
+  },
+  {
+    url: "https://www.victoryonline.co.il/product/7290000066318", retailer: "victory",
+    // Branch price wins over the (stale) JSON-LD offer and the related product's price
+    expect: { source: "embedded-json", price: 7.9, promo_price: 6.5, promo_text: "2 ב-13 ₪", unit_price: 5.27, unit_price_text: "₪5.27 / ליטר", in_stock: true, barcode: "7290000066318", title: "קוקה קולה 1.5 ליטר" }
+  },
+  {
+    url: "https://www.yohananof.co.il/product/7290000042442", retailer: "yohananof",
+    expect: { source: "embedded-json", price: 6.3, promo_price: null, promo_text: null, unit_price: 6.3, in_stock: true, barcode: "7290000042442", title: "חלב תנובה 3% 1 ליטר" }
+  },
+  {
+    url: "https://www.tivtaam.co.il/product/7290000066318", retailer: "tiv-taam",
+    expect: { source: "embedded-json", price: 8.9, promo_price: null, in_stock: false, barcode: "7290000066318", title: "קוקה קולה 1.5 ליטר" }
+  },
+  {
+    url: "https://www.osherad.co.il/product/7290000042442", retailer: "osher-ad",
+    // A "sale" price equal to the regular one is no promotion; barcode from the URL, title from <h1>
+    expect: { source: "embedded-json", price: 5.9, promo_price: null, promo_text: "מחיר קבוע", unit_price: 5.9, unit_price_text: "₪5.9", in_stock: true, barcode: "7290000042442", title: "חלב תנובה 3% \"טרי\" 1 ליטר" }
+  },
+];
+
+for (const { url, retailer, expect } of CASES){
+  Deno.test(`adapter ${retailer}: ${pages[url]}`, async ()=>{
+    const adapter = srv.adapterFor(url);
+    assertEquals(adapter?.retailer, retailer);
+    const html = await Deno.readTextFile(new URL(pages[url], PAGES));
+    const got = adapter!.extract(html, new URL(url)) as Record<string, unknown>;
+    assertEquals(Object.fromEntries(Object.keys(expect).map(k => [k, got[k]])), expect);
+  });
+}
+
+Deno.test("every retailer adapter has a saved page", ()=>{
+  const covered = new Set(CASES.map(c => c.retailer));
+  assertEquals(srv.RETAILER_ADAPTERS.filter(a => !covered.has(a.retailer)).map(a => a.retailer), []);
+});
+
+Deno.test("adapterFor: by the registry's domains, not other hosts", ()=>{
+  assertEquals(srv.adapterFor("https://shufersal.co.il/online/he/p/P_1")?.retailer, "shufersal");
+  assertEquals(srv.adapterFor("https://www.example.co.il/product/7290000066318"), null);
+  assertEquals(srv.adapterFor("not a url"), null);
+});
+
+Deno.test("feedFileLinks: the chain's own files, newest per kind and branch", ()=>{
+  const html = `
+    <a href="/files/Stores7290027600007-000-202510180200.xml">stores (old)</a>
+    <a href="/files/Stores7290027600007-000-202510190200.xml">stores</a>
+    <a href="https://blob.example/PriceFull7290027600007-001-202510190300.gz?sv=1&amp;sig=x">001</a>
+    <a href="https://blob.example/PriceFull7290027600007-001-202510180300.gz">001 (old)</a>
+    <a href="https://blob.example/PromoFull7290027600007-002-202510190300.gz">002</a>
+    <a href="https://blob.example/PriceFull7290058140886-001-202510190300.gz">other chain</a>
+    <a href="/files/readme.txt">readme</a>`;
+  assertEquals(srv.feedFileLinks(html, "https://prices.example.co.il/", "7290027600007"), [
+    { name: "PriceFull7290027600007-001-202510190300.gz", url: "https://blob.example/PriceFull7290027600007-001-202510190300.gz?sv=1&sig=x" },
+    { name: "PromoFull7290027600007-002-202510190300.gz", url: "https://blob.example/PromoFull7290027600007-002-202510190300.gz" },
+    { name: "Stores7290027600007-000-202510190200.xml", url: "https://prices.example.co.il/files/Stores7290027600007-000-202510190200.xml" },
+  ]);
+});
+
+Deno.test("feed downloads: streamed to disk under a size cap, older files of the kind and branch removed", async ()=>{
+  const dir = await Deno.makeTempDir();
+  const body = new Uint8Array(300_000).fill(0x61);
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen(){} }, (req)=>{
+    const u = new URL(req.url);
+    // /chunked: no content-length, so only the streamed byte count can stop it
+    if (u.pathname === "/chunked") return new Response(new Blob([body]).stream());
+    return new Response(body);
+  });
+  const base = `http://127.0.0.1:${server.addr.port}`;
+  try{
+    assertEquals(await srv.downloadFeedFile(`${base}/ok`, `${dir}/PriceFull7290027600007-001-202510190300.gz`, 500_000), 300_000);
+    for (const path of ["/declared", "/chunked"]){
+      let error = "";
+      try{ await srv.downloadFeedFile(`${base}${path}`, `${dir}/PriceFull7290027600007-002-202510190300.gz`, 100_000); }
+      catch(e){ error = String(e); }
+      assert(error.includes("larger than 100000 bytes"), `${path}: ${error}`);
+    }
+    const names = async ()=> (await Array.fromAsync(Deno.readDir(dir))).map(e => e.name).sort();
+    // Nothing left of the rejected downloads, not even a partial file
+    assertEquals(await names(), ["PriceFull7290027600007-001-202510190300.gz"]);
+
+    for (const n of ["PriceFull7290027600007-001-202510180300.gz", "PromoFull7290027600007-001-202510180300.gz", "PriceFull7290027600007-002-202510180300.gz", "Stores7290027600007-202510180200.xml"]){
+      await Deno.writeTextFile(`${dir}/${n}`, "old");
+    }
+    assertEquals(await srv.pruneFeedFiles(dir, "PriceFull7290027600007-001-202510190300.gz"), 1);
+    assertEquals(await names(), [
+      "PriceFull7290027600007-001-202510190300.gz", "PriceFull7290027600007-002-202510180300.gz",
+      "PromoFull7290027600007-001-202510180300.gz", "Stores7290027600007-202510180200.xml"
+    ]);
+  } finally {
+    await server.shutdown();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
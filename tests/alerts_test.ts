@@ -0,0 +1,129 @@
+import { assert, assertEquals } from "./assert.ts";
+import { apiKey, call, srv } from "./helpers.ts";
+
+// Receives webhook deliveries on 127.0.0.1 (allowed through ALERT_WEBHOOK_ALLOW in helpers.ts)
+function webhookReceiver(){
+  const received: { headers: Headers; body: string }[] = [];
+  const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen(){} }, async (req)=>{
+    received.push({ headers: req.headers, body: await req.text() });
+    return new Response("ok");
+  });
+  return { received, url: `http://127.0.0.1:${server.addr.port}/hook`, close: ()=> server.shutdown() };
+}
+
+async function hmacHex(secret:string, data:string){
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = new Uint8Array(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(data)));
+  return Array.from(sig, b => b.toString(16).padStart(2, "0")).join("");
+}
+
+type UserReply = { token: string; user: { id: string } };
+type ListReply = { list: { id: string } };
+type AlertReply = { alert: { id: string }; secret: string };
+
+async function userCharge(user_id:string){
+  const day = new Date().toISOString().slice(0, 10);
+  return Number((await srv.kv.get<Deno.KvU64>(["client_usage", day, `user:${user_id}`, "llm_calls"])).value?.value ?? 0n);
+}
+
+Deno.test("list alerts: one shared search per tick, no snapshots, charged to the owner, throttled, signed deliveries", async ()=>{
+  const hook = webhookReceiver();
+  try{
+    const u = await call<UserReply>("POST", "/api/users", { email: "alerts@example.com", password: "correct horse battery" });
+    assertEquals(u.status, 201);
+    const auth = { authorization: `Bearer ${u.json.token}` };
+    const l = await call<ListReply>("POST", "/api/lists", { name: "weekly", list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 }, auth);
+    assertEquals(l.status, 201);
+    const list_id = l.json.list.id;
+
+    // Model calls one search of this list makes (the mock provider is deterministic)
+    const before = await srv.llmCallsToday();
+    const s = await call("POST", "/api/search", { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 });
+    assertEquals(s.status, 200);
+    const perSearch = await srv.llmCallsToday() - before;
+    assert(perSearch >= 1);
+
+    const a1 = await call<AlertReply>("POST", "/api/alerts", { list_id, target_price: 10_000, webhook_url: hook.url }, auth);
+    const a2 = await call<AlertReply>("POST", "/api/alerts", { list_id, target_price: 10_000, webhook_url: hook.url }, auth);
+    assertEquals([a1.status, a2.status], [201, 201]);
+
+    const t0 = Date.parse("2026-03-01T08:00:00Z");
+    const tick = (min:number)=> srv.runDueAlerts({ now: ()=> t0 + min * 60_000 });
+
+    const callsBefore = await srv.llmCallsToday();
+    const first = await tick(0);
+    assertEquals(first.length, 2);
+    assert(first.every(r => r.checked && r.triggered && typeof r.price === "number"));
+    // Both rules share one search, and its model calls are charged to the list's owner
+    assertEquals(await srv.llmCallsToday() - callsBefore, perSearch);
+    assertEquals(await userCharge(u.json.user.id), perSearch);
+    // Alerts do not write list snapshots
+    const snaps = await call("GET", `/api/lists/${list_id}/snapshots`, undefined, auth);
+    assertEquals(snaps.json.snapshots, []);
+
+    // Signed deliveries: sha256=HMAC(secret, `${timestamp}.${body}`), timestamp from the fake clock
+    assertEquals(hook.received.length, 2);
+    for (const d of hook.received){
+      const body = JSON.parse(d.body);
+      const secret = body.alert_id === a1.json.alert.id ? a1.json.secret : a2.json.secret;
+      const ts = d.headers.get("x-cartcompare-timestamp")!;
+      assertEquals(ts, String(t0 / 1000));
+      assertEquals(d.headers.get("x-cartcompare-signature"), `sha256=${await hmacHex(secret, `${ts}.${d.body}`)}`);
+      assertEquals(body.type, "price_drop");
+      assertEquals(body.triggered_at, new Date(t0).toISOString());
+    }
+
+    // List rules wait ALERTS_LIST_INTERVAL_MIN (360) between searches
+    assertEquals(await tick(61), []);
+    assertEquals(await tick(359), []);
+    const third = await tick(361);
+    assertEquals(third.length, 2);
+    // Same price again: no new low, no new delivery
+    assert(third.every(r => r.checked && !r.triggered));
+    assertEquals(hook.received.length, 2);
+    assertEquals(await userCharge(u.json.user.id), 2 * perSearch);
+
+    // Over the owner's daily budget the search is skipped
+    const day = new Date().toISOString().slice(0, 10);
+    await srv.kv.atomic().sum(["client_usage", day, `user:${u.json.user.id}`, "llm_calls"], 1000n).commit();
+    const callsAtLimit = await srv.llmCallsToday();
+    const fourth = await tick(722);
+    assertEquals(fourth.length, 2);
+    assert(fourth.every(r => !r.checked));
+    assertEquals(await srv.llmCallsToday(), callsAtLimit);
+  } finally {
+    await hook.close();
+  }
+});
+
+Deno.test("alert scope: a branch narrows list and product rules to that branch", async ()=>{
+  const key = await apiKey("scope test");
+  const u = await call<UserReply>("POST", "/api/users", { email: "scope@example.com", password: "correct horse battery" }, key);
+  const auth = { ...key, authorization: `Bearer ${u.json.token}` };
+  const list_text = "חלב 3%\nקוקה קולה 1.5 ליטר";
+  const l = await call<ListReply>("POST", "/api/lists", { name: "scoped", list_text, address: "הולון", radius_km: 5 }, auth);
+  // A search fills the catalog with the cola (barcode 7290000066318): 7.90 at Shufersal and 7.50 at
+  // Rami Levy, each with a two-for promo (13.90 / 14) that a single bottle does not get
+  assertEquals((await call("POST", "/api/search", { list_text, address: "הולון", radius_km: 5 }, key)).status, 200);
+
+  const rule = async (body:Record<string, unknown>)=> {
+    const r = await call<AlertReply>("POST", "/api/alerts", { target_price: 10_000, webhook_url: "http://127.0.0.1:9/hook", ...body }, auth);
+    assertEquals(r.status, 201);
+    return r.json.alert.id;
+  };
+  const ids = {
+    list: await rule({ list_id: l.json.list.id }),
+    listShufersal: await rule({ list_id: l.json.list.id, branch_id: "mock_shufersal_holon" }),
+    listElsewhere: await rule({ list_id: l.json.list.id, branch_id: "no_such_branch" }),
+    product: await rule({ product_id: "7290000066318" }),
+    productShufersal: await rule({ product_id: "7290000066318", branch_id: "mock_shufersal_holon" })
+  };
+  const out = await srv.runDueAlerts({ now: ()=> Date.parse("2026-04-01T08:00:00Z") });
+  const price = (alert_id:string)=> out.find(r => r.alert_id === alert_id)?.price;
+  assertEquals(price(ids.list), 20.5);
+  assertEquals(price(ids.listShufersal), 20.8);
+  assertEquals(price(ids.listElsewhere), null);
+  assertEquals(price(ids.product), 7.5);
+  assertEquals(price(ids.productShufersal), 7.9);
+  assert(out.filter(r => Object.values(ids).includes(r.alert_id)).every(r => r.checked));
+});
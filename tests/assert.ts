@@ -0,0 +1,6 @@
+// Minimal assertions on top of node:assert (deep, strict equality)
+import assert from "node:assert/strict";
+
+export function assertEquals<T>(actual:T, expected:T, msg?:string){ assert.deepStrictEqual(actual, expected, msg); }
+export function assert_(cond:unknown, msg?:string): asserts cond { assert.ok(cond, msg); }
+export { assert_ as assert };
@@ -0,0 +1,42 @@
+import { assertEquals } from "./assert.ts";
+import { apiKey, call } from "./helpers.ts";
+
+// GET /api/barcode/:ean prices a catalog product at the approved branches near an address, from
+// each chain's product page (the mock pages) when the branch has no feed
+const COLA = "7290000066318";
+const HOLON = encodeURIComponent("הולון");
+
+type Row = { chain: string; branch_id: string; price: number; effective_price: number; source: string; price_scope: string; product_url: string; verification: { notes: string; barcode_matches: boolean; price_extracted: number } };
+type Reply = { ean: string; product: { id: string; name: string; product_urls: Record<string, string> }; prices: Row[]; cheapest: Row };
+
+const KEY = await apiKey("barcode test");
+
+Deno.test("GET /api/barcode/:ean: the EAN-13 checksum and the address are required", async ()=>{
+  const bad = await call("GET", `/api/barcode/7290000066319?address=${HOLON}`, undefined, KEY);
+  assertEquals([bad.status, bad.json.message], [400, "Invalid EAN-13 barcode"]);
+  const noAddress = await call("GET", `/api/barcode/${COLA}`, undefined, KEY);
+  assertEquals([noAddress.status, noAddress.json.message], [400, "Missing address"]);
+  // Valid, but neither in the catalog nor in a feed yet
+  assertEquals((await call("GET", `/api/barcode/${COLA}?address=${HOLON}`, undefined, KEY)).status, 404);
+});
+
+Deno.test("GET /api/barcode/:ean: a catalog product is priced per branch from its chain's page, cheapest first", async ()=>{
+  // A search puts the product and both chains' pages in the catalog
+  assertEquals((await call("POST", "/api/search", { list_text: "קוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 }, KEY)).status, 200);
+
+  const r = await call<Reply>("GET", `/api/barcode/${COLA}?address=${HOLON}&radius_km=5`, undefined, KEY);
+  assertEquals(r.status, 200);
+  assertEquals([r.json.ean, r.json.product.id, r.json.product.name], [COLA, COLA, "קוקה קולה"]);
+  const prices = r.json.prices;
+  assertEquals(prices.map(p => [p.chain, p.branch_id, p.price, p.source, p.price_scope]), [
+    ["רמי לוי", "mock_ramilevy_holon", 7.5, "site", "online"],
+    ["שופרסל", "mock_shufersal_holon", 7.9, "site", "online"]
+  ]);
+  for (const p of prices){
+    assertEquals([p.verification.notes, p.verification.barcode_matches, p.verification.price_extracted], ["OK", true, p.price]);
+    assertEquals(p.product_url, r.json.product.product_urls[new URL(p.product_url).hostname.replace(/^www\./, "")]);
+  }
+  // One unit: the two-for promotions do not apply
+  assertEquals(prices.map(p => p.effective_price), [7.5, 7.9]);
+  assertEquals(r.json.cheapest.branch_id, "mock_ramilevy_holon");
+});
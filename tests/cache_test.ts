@@ -0,0 +1,32 @@
+import { assertEquals } from "./assert.ts";
+import { apiKey, call } from "./helpers.ts";
+import type { SearchResult } from "../server_deno.ts";
+
+// The memory cache behind geocoding, Places and product pages, seen through /api/health
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 };
+
+type SourceStats = { hits: number; misses: number; coalesced: number; errors: number };
+
+async function stats(){
+  const r = await call("GET", "/api/health");
+  return r.json.cache as { backend: string; sources: Record<"geocode" | "places" | "page", SourceStats> };
+}
+
+Deno.test("cache: a repeated search is served from the cache for every source", async ()=>{
+  const key = await apiKey("cache test");
+  assertEquals((await stats()).backend, "memory");
+
+  const first = await call<SearchResult>("POST", "/api/search", SEARCH, key);
+  assertEquals(first.status, 200);
+  // One geocode, Places once per enabled chain (six), one page per basket line (four)
+  const cold = (await stats()).sources;
+  assertEquals([cold.geocode.misses, cold.places.misses, cold.page.misses], [1, 6, 4]);
+  assertEquals([cold.geocode.hits, cold.places.hits, cold.page.hits], [0, 0, 0]);
+
+  const second = await call<SearchResult>("POST", "/api/search", SEARCH, key);
+  assertEquals(second.status, 200);
+  const warm = (await stats()).sources;
+  assertEquals([warm.geocode.misses, warm.places.misses, warm.page.misses], [1, 6, 4]);
+  assertEquals([warm.geocode.hits, warm.places.hits, warm.page.hits], [1, 6, 4]);
+  assertEquals(second.json.results.map(s => s.total_price), first.json.results.map(s => s.total_price));
+});
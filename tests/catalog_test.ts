@@ -0,0 +1,49 @@
+import { assert, assertEquals } from "./assert.ts";
+import { apiKey, call } from "./helpers.ts";
+
+// Verified basket lines land in the catalog (keyed by barcode) with one price observation per
+// branch and search
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 };
+const COLA = "7290000066318";
+
+type Observation = { product_id: string; chain: string; branch_id: string; price: number; price_scope: string; product_url: string; request_id: string };
+type History = { observations: number; by_chain: Record<string, Observation[]> };
+
+const KEY = await apiKey("catalog test");
+
+Deno.test("GET /api/products/:id: a verified line is in the catalog with each chain's page", async ()=>{
+  assertEquals((await call("GET", `/api/products/${COLA}`)).status, 404);
+  const r = await call("POST", "/api/search", SEARCH, KEY);
+  assertEquals(r.status, 200);
+  const lines = (r.json.results as { basket: { barcode: string; product_id: string }[] }[]).flatMap(s => s.basket);
+  assert(lines.filter(l => l.barcode === COLA).every(l => l.product_id === COLA));
+
+  const p = await call<{ product: { id: string; barcode: string; name: string; size: string; product_urls: Record<string, string> } }>("GET", `/api/products/${COLA}`);
+  assertEquals(p.status, 200);
+  const { id, barcode, name, size, product_urls } = p.json.product;
+  assertEquals({ id, barcode, name, size, product_urls }, {
+    id: COLA, barcode: COLA, name: "קוקה קולה", size: "1.5 ליטר",
+    product_urls: {
+      "shufersal.co.il": `https://www.shufersal.co.il/online/he/p/P_${COLA}`,
+      "rami-levy.co.il": `https://www.rami-levy.co.il/he/online/search?item=${COLA}`
+    }
+  });
+});
+
+Deno.test("GET /api/products/:id/history: observations grouped by chain, one per search", async ()=>{
+  const second = await call("POST", "/api/search", SEARCH, KEY);
+  assertEquals(second.status, 200);
+
+  const h = await call<History>("GET", `/api/products/${COLA}/history`);
+  assertEquals([h.status, h.json.observations], [200, 4]);
+  const by = h.json.by_chain;
+  assertEquals(Object.keys(by).sort(), ["רמי לוי", "שופרסל"]);
+  assertEquals(by["שופרסל"].map(o => [o.branch_id, o.price, o.price_scope]), [["mock_shufersal_holon", 7.9, "online"], ["mock_shufersal_holon", 7.9, "online"]]);
+  assertEquals(by["רמי לוי"].map(o => o.price), [7.5, 7.5]);
+  assertEquals(by["רמי לוי"][1].request_id, second.json.requestId);
+
+  const one = await call<History>("GET", `/api/products/${COLA}/history?chain=${encodeURIComponent("רמי לוי")}`);
+  assertEquals(Object.keys(one.json.by_chain), ["רמי לוי"]);
+  assertEquals(one.json.observations, 2);
+  assertEquals((await call("GET", "/api/products/0000000000000/history")).status, 404);
+});
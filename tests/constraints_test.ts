@@ -0,0 +1,76 @@
+import { assert, assertEquals } from "./assert.ts";
+import { apiKey, call } from "./helpers.ts";
+
+// Constraint profiles through POST /api/search. The fixture pages state the products' kashrut
+// (cola: rabbanut, milk: mehadrin) and allergens (milk), so rejections come from page facts.
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5, show_all: true, repair_rounds: 0 };
+
+const KEY = await apiKey("constraints test");
+
+type Store = { store_name: string; basket: { name: string }[]; store_verification: { verified_items: number; issues: string[] } };
+
+async function search(constraints:Record<string, unknown>, headers:Record<string, string> = {}){
+  const r = await call<{ constraints: Record<string, unknown>; results: Store[] }>("POST", "/api/search", { ...SEARCH, constraints }, { ...KEY, ...headers });
+  assertEquals(r.status, 200);
+  return r.json;
+}
+
+// Per store: the lines kept and why the others were rejected
+function outcome(results:Store[]){
+  return Object.fromEntries(results.map(s => [s.store_name, {
+    kept: s.basket.map(l => l.name),
+    rejected: s.store_verification.issues.map(i => i.replace(/^item rejected: \S+: /, ""))
+  }]));
+}
+
+Deno.test("constraints: a product below the kashrut level is rejected", async ()=>{
+  const r = await search({ kashrut: "badatz" });
+  const reasons = ["kashrut rabbanut below badatz", "kashrut mehadrin below badatz"];
+  assertEquals(outcome(r.results), { "שופרסל": { kept: [], rejected: reasons }, "רמי לוי": { kept: [], rejected: reasons } });
+  // Mehadrin passes the milk and still rejects the cola
+  const m = await search({ kashrut: "mehadrin" });
+  for (const s of m.results) assertEquals(s.basket.map(l => l.name), ["חלב 3%"]);
+});
+
+Deno.test("constraints: a product that contains an excluded allergen is rejected", async ()=>{
+  const r = await search({ allergens: ["milk"] });
+  for (const s of Object.values(outcome(r.results))) assertEquals(s, { kept: ["קוקה קולה"], rejected: ["contains or may contain milk"] });
+});
+
+Deno.test("constraints: a denied brand is rejected", async ()=>{
+  const r = await search({ brands_deny: ["קוקה קולה"] });
+  for (const s of Object.values(outcome(r.results))) assertEquals(s, { kept: ["חלב 3%"], rejected: ["brand excluded (קוקה קולה)"] });
+});
+
+Deno.test("constraints: the saved profile merges with the request, the stricter side winning", async ()=>{
+  const u = await call<{ token: string }>("POST", "/api/users", { email: "profile@example.com", password: "correct horse battery" });
+  assertEquals(u.status, 201);
+  const auth = { authorization: `Bearer ${u.json.token}` };
+  const saved = await call<{ profile: { no_substitution: number[] } }>("PUT", "/api/users/me/profile", { kashrut: "mehadrin", allergens: ["sesame"], brands_deny: ["פפסי"], brands_allow: ["תנובה"], no_substitution: [1] }, auth);
+  assertEquals(saved.status, 200);
+  assertEquals(saved.json.profile.no_substitution, []);
+
+  const r = await search({ kashrut: "rabbanut", allergens: ["milk"], brands_deny: ["קוקה קולה"], no_substitution: [0] }, auth);
+  assertEquals(r.constraints, {
+    kashrut: "mehadrin", allergens: ["sesame", "milk"], diet: [], brands_allow: ["תנובה"],
+    brands_deny: ["פפסי", "קוקה קולה"], no_substitution: [0]
+  });
+  // Milk fails the request's allergen, cola the saved kashrut level and the request's brand rule
+  for (const s of r.results) assertEquals(s.store_verification.verified_items, 0);
+});
+
+Deno.test("POST /api/search: an Authorization header that is not a user token is ignored", async ()=>{
+  for (const authorization of ["Bearer test-admin", "Bearer not-a-token", "Basic Zm9vOmJhcg=="]){
+    const r = await search({ allergens: ["milk"] }, { authorization });
+    assertEquals(r.constraints.allergens, ["milk"]);
+    assertEquals(r.constraints.kashrut, "none");
+  }
+});
+
+Deno.test("POST /api/search: a body that is not a JSON object is a 400", async ()=>{
+  for (const body of [null, 42, [SEARCH]]){
+    const r = await call<{ message: string }>("POST", "/api/search", body, KEY);
+    assertEquals(r.status, 400);
+    assert(r.json.message.includes("JSON object"));
+  }
+});
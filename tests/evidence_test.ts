@@ -0,0 +1,76 @@
+import { assert, assertEquals } from "./assert.ts";
+import { apiKey, call, srv } from "./helpers.ts";
+
+type Extract = Parameters<typeof srv.archiveEvidence>[2];
+const EXTRACT: Extract = { price: 7.9, promo_price: null, promo_text: null, unit_price: null, unit_price_text: null, in_stock: true, barcode: null, title: null, source: "json-ld", match: "7.90" };
+const KV_VALUE_MAX = 65_536;
+
+// Random hex barely compresses: gzip keeps it at about half its length
+function page(hexChars:number){
+  const bytes = new Uint8Array(hexChars / 2);
+  for (let i = 0; i < bytes.length; i += 65_536) crypto.getRandomValues(bytes.subarray(i, i + 65_536));
+  return `<html><body><div class="price">₪7.90</div><p>${Array.from(bytes, b => b.toString(16).padStart(2, "0")).join("")}</p></body></html>`;
+}
+
+async function keys(prefix:Deno.KvKey){
+  const out: Deno.KvEntry<unknown>[] = [];
+  for await (const e of srv.kv.list({ prefix })) out.push(e);
+  return out;
+}
+
+Deno.test("evidence: pages around the 64 KiB value cap are split into chunks and read back intact", async ()=>{
+  for (const [hex, chunks] of [[100_000, 1], [130_000, 2], [250_000, 3]] as const){
+    const html = page(hex);
+    const id = (await srv.archiveEvidence(`https://www.shufersal.co.il/online/he/p/P_big_${hex}`, { status: 200, text: html }, EXTRACT))!;
+    const stored = await keys(["evidence_chunk", id]);
+    assertEquals(stored.length, chunks);
+    assert(stored.every(e => (e.value as Uint8Array).length <= 60_000 && (e.value as Uint8Array).length < KV_VALUE_MAX));
+
+    const meta = await call<{ intact: boolean; evidence: { chunks: number; bytes: number; location: { match: string } } }>("GET", `/api/evidence/${id}?format=json`);
+    assertEquals([meta.status, meta.json.intact, meta.json.evidence.chunks, meta.json.evidence.bytes], [200, true, chunks, html.length]);
+    assertEquals(meta.json.evidence.location.match, "7.90");
+    const raw = await srv.app.request(`/api/evidence/${id}?format=raw`);
+    assertEquals(await raw.text(), html);
+  }
+});
+
+Deno.test("evidence: an unchanged page is stored once, a missing chunk shows as not intact", async ()=>{
+  const url = "https://www.shufersal.co.il/online/he/p/P_dedupe";
+  const html = page(130_000);
+  const a = await srv.archiveEvidence(url, { status: 200, text: html }, EXTRACT);
+  const b = await srv.archiveEvidence(url, { status: 200, text: html }, EXTRACT);
+  assertEquals(a, b);
+  assertEquals((await keys(["evidence_chunk", a!])).length, 2);
+  assert(await srv.archiveEvidence(url, { status: 200, text: html + " " }, EXTRACT) !== a);
+  assertEquals(await srv.archiveEvidence(url, { status: 404, text: "gone" }, EXTRACT), null);
+
+  await srv.kv.delete(["evidence_chunk", a!, 1]);
+  const r = await call("GET", `/api/evidence/${a}?format=json`);
+  assertEquals([r.status, r.json.intact], [200, false]);
+  assertEquals((await call("GET", `/api/evidence/${a}`)).status, 500);
+});
+
+Deno.test("evidence: pruning drops snapshots not seen for the retention period", async ()=>{
+  const old = (await srv.archiveEvidence("https://www.shufersal.co.il/online/he/p/P_prune", { status: 200, text: page(1_000) }, EXTRACT))!;
+  // EVIDENCE_RETENTION_DAYS = 30: nothing archived today is due a day later
+  const day = 86400_000;
+  assertEquals(await srv.pruneEvidence(Date.now() + day), 0);
+  assert(await srv.pruneEvidence(Date.now() + 31 * day) >= 1);
+  assertEquals((await srv.kv.get(["evidence", old])).value, null);
+  assertEquals(await keys(["evidence_chunk", old]), []);
+  assertEquals((await keys(["evidence_by_time"])).filter(e => e.key[2] === old), []);
+  assertEquals((await call("GET", `/api/evidence/${old}`)).status, 404);
+});
+
+Deno.test("evidence: a search archives the pages of the lines it shows, once per page", async ()=>{
+  await srv.pruneEvidence(Date.now() + 365 * 86400_000);
+  const key = await apiKey("evidence test");
+  const search = ()=> call("POST", "/api/search", { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 }, key);
+  const r = await search();
+  assertEquals(r.status, 200);
+  const shown = (r.json.results as { basket: { evidence_id: string }[] }[]).flatMap(s => s.basket.map(l => l.evidence_id));
+  assertEquals(shown.length, 4);
+  assertEquals((await keys(["evidence"])).map(e => e.key[1]).sort(), [...new Set(shown)].sort());
+  await search();
+  assertEquals((await keys(["evidence"])).length, 4);
+});
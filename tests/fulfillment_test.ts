@@ -0,0 +1,55 @@
+import { assert, assertEquals } from "./assert.ts";
+import { apiKey, call } from "./helpers.ts";
+
+// Checkout totals per fulfillment mode with the registry's delivery rules (retailers.json):
+// Shufersal min ₪150, delivery ₪29.90, pickup ₪9.90; Rami Levy min ₪200, delivery ₪29.90, free pickup
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 };
+const KEY = await apiKey("fulfillment test");
+
+type Store = {
+  rank: number; store_name: string; total_price: number; travel_cost: number; combined_total: number;
+  totals: { items: number; delivery: number; below_minimum: number; total: number };
+  fulfillment: { mode: string; available: boolean; min_basket: number | null; free_delivery_from: number | null; fee_rule: string | null; slots: { start: string; end: string; available: boolean }[]; slots_source: string | null };
+};
+
+async function search(extra:Record<string, unknown>){
+  const r = await call("POST", "/api/search", { ...SEARCH, ...extra }, KEY);
+  assertEquals(r.status, 200);
+  return r.json as { fulfillment: string; results: Store[] };
+}
+
+Deno.test("fulfillment: in store the checkout total is the items total", async ()=>{
+  const r = await search({});
+  assertEquals(r.fulfillment, "in_store");
+  assertEquals(r.results.map(s => [s.rank, s.store_name, s.totals]), [
+    [1, "רמי לוי", { items: 20.5, delivery: 0, below_minimum: 0, total: 20.5 }],
+    [2, "שופרסל", { items: 20.8, delivery: 0, below_minimum: 0, total: 20.8 }]
+  ]);
+  for (const s of r.results) assertEquals([s.fulfillment.available, s.fulfillment.slots, s.fulfillment.min_basket], [true, [], null]);
+});
+
+Deno.test("fulfillment: delivery adds the fee and the top-up to the minimum basket, and ranks by the checkout total", async ()=>{
+  const r = await search({ fulfillment: "delivery", rank_by: "price_travel", cost_per_minute: 1 });
+  assertEquals(r.fulfillment, "delivery");
+  // Rami Levy's items are cheaper, but its higher minimum basket makes the order dearer
+  assertEquals(r.results.map(s => [s.rank, s.store_name, s.totals]), [
+    [1, "שופרסל", { items: 20.8, delivery: 29.9, below_minimum: 129.2, total: 179.9 }],
+    [2, "רמי לוי", { items: 20.5, delivery: 29.9, below_minimum: 179.5, total: 229.9 }]
+  ]);
+  // Delivered orders need no trip
+  for (const s of r.results) assertEquals([s.travel_cost, s.combined_total], [0, s.totals.total]);
+
+  const [shufersal] = r.results;
+  assertEquals({ ...shufersal.fulfillment, slots: [] }, { mode: "delivery", available: true, min_basket: 150, free_delivery_from: null, fee_rule: "base", slots: [], slots_source: "stub" });
+  assertEquals(shufersal.fulfillment.slots.length, 4);
+  const earliest = Date.now() + 3 * 3600_000 - 60_000;
+  assert(shufersal.fulfillment.slots.every(s => s.available && Date.parse(s.start) >= earliest && Date.parse(s.end) - Date.parse(s.start) === 2 * 3600_000));
+});
+
+Deno.test("fulfillment: pickup charges the pickup fee", async ()=>{
+  const r = await search({ fulfillment: "pickup" });
+  assertEquals(r.results.map(s => [s.store_name, s.totals.delivery, s.totals.total, s.fulfillment.fee_rule]), [
+    ["שופרסל", 9.9, 159.9, "pickup"],
+    ["רמי לוי", 0, 200, "pickup"]
+  ]);
+});
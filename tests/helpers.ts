@@ -0,0 +1,28 @@
+// Loads server_deno.ts in-process for tests: offline providers (fixtures/mock), an in-memory KV
+// and no schedulers, job worker or listener (those only start when the server is the main module).
+// The environment has to be set before the module is evaluated, hence the dynamic import.
+Deno.env.set("PROVIDER_MODE", "mock");
+Deno.env.set("KV_PATH", ":memory:");
+Deno.env.set("LOG_FORMAT", "text");
+Deno.env.set("ALERTS_SCHEDULER", "off");
+Deno.env.set("ALERT_WEBHOOK_ALLOW", "127.0.0.1");
+Deno.env.set("ADMIN_TOKEN", "test-admin");
+Deno.env.set("JOBS_WORKER", "off");
+
+export const srv = await import("../server_deno.ts");
+
+// Run a request through the Hono app and parse the JSON reply (typed by the caller; plain fields by default)
+export async function call<T = Record<string, unknown>>(method:string, path:string, body?:unknown, headers:Record<string, string> = {}){
+  const res = await srv.app.request(path, {
+    method,
+    headers: { "content-type": "application/json", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, json: await res.json() as T };
+}
+
+// An API key with room for a whole test file's searches (anonymous clients get a burst of 10)
+export async function apiKey(name:string){
+  const r = await call("POST", "/api/admin/keys", { name, daily_llm_budget: 1000, rate_per_min: 600, burst: 100 }, { authorization: "Bearer test-admin" });
+  return { "x-api-key": r.json.api_key as string };
+}
@@ -0,0 +1,142 @@
+import { assert, assertEquals } from "./assert.ts";
+import { apiKey, call, srv } from "./helpers.ts";
+import type { Job, JobTask } from "../server_deno.ts";
+
+// Jobs run through srv.runJobs with a fake clock (JOBS_WORKER=off in helpers.ts). Ten lines make
+// two chunks (JOB_CHUNK_ITEMS = 8) × six enabled chains; the mock model prices milk and cola at
+// both Holon branches, so each store gets lines from both chunks.
+const LIST = ["לחם", "ביצים", "אורז", "סוכר", "קמח", "שמן", "חלב 3%", "קוקה קולה 1.5 ליטר", "חלב 3%", "קוקה קולה 1.5 ליטר"].join("\n");
+
+type JobLine = { list_index: number | null; line_total: number };
+type JobStore = { store_name: string; rank: number; total_price: number; coverage: number; job_chunks: number[]; basket: JobLine[]; store_verification: { verified_items: number; total_items: number; store_verified: boolean } };
+type JobReply = {
+  job: { id: string; status: string };
+  progress: { tasks: number; done: number; failed: number; pending: number; percent: number };
+  tasks: { chunk: number; status: string; attempts: number; error: string | null }[];
+  result: { partial: boolean; results: JobStore[] } | null;
+  share?: { id: string };
+};
+
+const KEY = await apiKey("jobs test");
+
+async function enqueue(){
+  const r = await call<JobReply>("POST", "/api/jobs", { list_text: LIST, address: "הולון", radius_km: 5, show_all: true }, KEY);
+  assertEquals(r.status, 202);
+  return r.json.job.id;
+}
+
+async function tasks(job_id:string){
+  const out: Deno.KvEntry<JobTask>[] = [];
+  for await (const e of srv.kv.list<JobTask>({ prefix: ["job_tasks", job_id] })) out.push(e);
+  return out;
+}
+
+const getJob = async (job_id:string)=> (await srv.kv.get<Job>(["jobs", job_id])).value!;
+
+Deno.test("POST /api/jobs: a body that is not a JSON object is a 400", async ()=>{
+  for (const body of [null, 5, "x", [1]]){
+    const r = await call("POST", "/api/jobs", body, KEY);
+    assertEquals([r.status, r.json.message], [400, "Request body must be a JSON object"]);
+  }
+  const r = await call("POST", "/api/jobs", {}, KEY);
+  assertEquals([r.status, r.json.details], [400, { needed: ["address", "list_text"] }]);
+});
+
+Deno.test("jobs: a failed chunk is retried with backoff, progress and merged results follow", async ()=>{
+  const job_id = await enqueue();
+  const queued = await call<JobReply>("GET", `/api/jobs/${job_id}`, undefined, KEY);
+  assertEquals(queued.json.progress, { tasks: 12, done: 0, failed: 0, pending: 12, percent: 0 });
+  assertEquals(queued.json.result, null);
+
+  // Break the second chunk: its lines come back empty, the search needs input and the task fails
+  const job = await getJob(job_id);
+  const saved = job.items.map(i => i.raw);
+  for (const i of job.chunks[1]) job.items[i].raw = "";
+  await srv.kv.set(["jobs", job_id], job);
+
+  const t0 = Date.parse("2026-03-01T08:00:00Z");
+  assertEquals(await srv.runJobs({ now: ()=> t0 }), 12);
+  const mid = await call<JobReply>("GET", `/api/jobs/${job_id}`, undefined, KEY);
+  assertEquals(mid.json.job.status, "running");
+  assertEquals(mid.json.progress, { tasks: 12, done: 6, failed: 0, pending: 6, percent: 50 });
+  for (const { value: t } of await tasks(job_id)){
+    if (t.chunk === 0) assertEquals([t.status, t.attempts], ["done", 1]);
+    else assertEquals([t.status, t.attempts, t.next_at, t.error], ["queued", 1, t0 + 30_000, "search returned need_input"]);
+  }
+  // Finished chunks are already merged into a partial result
+  assertEquals(mid.json.result!.partial, true);
+  assertEquals(mid.json.result!.results.map(s => [s.store_name, s.job_chunks, s.basket.map(l => l.list_index)]),
+    [["רמי לוי", [0], [6, 7]], ["שופרסל", [0], [6, 7]]]);
+
+  // Not due before JOB_RETRY_MS; fixed, the retry completes the job
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 29_000 }), 0);
+  const fixed = await getJob(job_id);
+  fixed.items.forEach((it, i)=> it.raw = saved[i]);
+  await srv.kv.set(["jobs", job_id], fixed);
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 31_000 }), 6);
+
+  const end = await call<JobReply>("GET", `/api/jobs/${job_id}`, undefined, KEY);
+  assertEquals(end.json.job.status, "done");
+  assertEquals(end.json.progress, { tasks: 12, done: 12, failed: 0, pending: 0, percent: 100 });
+  assert(end.json.tasks.every(t => t.attempts === (t.chunk === 0 ? 1 : 2)));
+  assertEquals(end.json.result!.partial, false);
+  // Per branch: both chunks' lines, list indexes mapped back to the whole list, totals summed and
+  // the six lines no store priced counted against coverage
+  const stores = end.json.result!.results;
+  assertEquals(stores.map(s => [s.rank, s.store_name, s.total_price, s.job_chunks, s.basket.map(l => l.list_index)]),
+    [[1, "רמי לוי", 41, [0, 1], [6, 7, 8, 9]], [2, "שופרסל", 41.6, [0, 1], [6, 7, 8, 9]]]);
+  for (const s of stores){
+    assertEquals(s.total_price, Math.round(s.basket.reduce((t, l)=> t + l.line_total, 0) * 100) / 100);
+    assertEquals([s.store_verification.verified_items, s.store_verification.total_items, s.store_verification.store_verified, s.coverage], [4, 10, false, 0.4]);
+  }
+  assert(end.json.share?.id);
+
+  // Ended jobs leave the worker index; their state stays readable
+  assertEquals((await srv.kv.get(["jobs_active", job_id])).value, null);
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 60_000 }), 0);
+});
+
+Deno.test("jobs: tasks out of attempts fail and the job ends partial", async ()=>{
+  const job_id = await enqueue();
+  const job = await getJob(job_id);
+  for (const i of job.chunks[1]) job.items[i].raw = "";
+  await srv.kv.set(["jobs", job_id], job);
+
+  // JOB_MAX_ATTEMPTS (3) with the retry delay doubling: 30 s, then 60 s
+  const t0 = Date.parse("2026-03-02T08:00:00Z");
+  assertEquals(await srv.runJobs({ now: ()=> t0 }), 12);
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 31_000 }), 6);
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 61_000 }), 0);
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 92_000 }), 6);
+
+  const end = await call<JobReply>("GET", `/api/jobs/${job_id}`, undefined, KEY);
+  assertEquals(end.json.job.status, "partial");
+  assertEquals(end.json.progress, { tasks: 12, done: 6, failed: 6, pending: 0, percent: 100 });
+  assert(end.json.tasks.filter(t => t.chunk === 1).every(t => t.status === "failed" && t.attempts === 3 && !!t.error));
+  assertEquals(end.json.result!.partial, true);
+  assertEquals(end.json.result!.results.map(s => s.job_chunks), [[0], [0]]);
+});
+
+Deno.test("jobs: a leased task is left to its worker until the lease runs out, then resumed", async ()=>{
+  const job_id = await enqueue();
+  const t0 = Date.parse("2026-03-03T08:00:00Z");
+  // Another process claimed the first task and stopped (JOB_LEASE_MS = 5 min)
+  const [first] = await tasks(job_id);
+  await srv.kv.set(first.key, { ...first.value, status: "running", attempts: 1, lease_until: t0 + 5 * 60_000 });
+
+  assertEquals(await srv.runJobs({ now: ()=> t0 }), 11);
+  assertEquals((await getJob(job_id)).status, "running");
+  assertEquals((await srv.kv.get(["jobs_active", job_id])).value, true);
+
+  // State is all in KV: a later pass picks up the stale lease and finishes the job
+  assertEquals(await srv.runJobs({ now: ()=> t0 + 5 * 60_000 }), 1);
+  const after = await tasks(job_id);
+  assertEquals([after[0].value.status, after[0].value.attempts], ["done", 2]);
+  const job = await getJob(job_id);
+  assertEquals([job.status, job.done, job.failed], ["done", 12, 0]);
+  assert(job.report_id);
+
+  // The merge reads the stored task results back, whatever process wrote them
+  const merged = await srv.mergeJobResults(job, after.map(e => e.value));
+  assertEquals(merged.results.map(s => [s.store_name, s.total_price, s.job_chunks]), [["רמי לוי", 41, [0, 1]], ["שופרסל", 41.6, [0, 1]]]);
+});
@@ -0,0 +1,81 @@
+import { assertEquals } from "./assert.ts";
+import { srv } from "./helpers.ts";
+
+const { parseList, parseListLine } = srv;
+
+// [input, expected fields] — only the fields listed are compared
+const CASES: [string, Record<string, unknown>][] = [
+  // Geresh / gershayim, in ASCII and Hebrew punctuation
+  ["יין אדום 0.75 ל׳", { name: "יין אדום", size: 0.75, unit: "l" }],
+  ["קוקה קולה 1.5 ל'", { name: "קוקה קולה", size: 1.5, unit: "l" }],
+  ["אורז בסמטי 1 ק\"ג", { name: "אורז בסמטי", size: 1, unit: "kg" }],
+  ["חצי ק״ג עגבניות", { name: "עגבניות", size: 0.5, unit: "kg" }],
+  ["שמן זית 750 מ\"ל", { name: "שמן זית", size: 750, unit: "ml" }],
+  ["גבינה צהובה 200 גר׳", { name: "גבינה צהובה", size: 200, unit: "g" }],
+  ["שישיית מים מינרליים 1.5 ל\"", { name: "מים מינרליים", pack_qty: 6, size: 1.5, unit: "l" }],
+
+  // Units: Hebrew words, abbreviations, glued English units, decimal comma
+  ["חלב 3% 1 ליטר", { name: "חלב 3%", size: 1, unit: "l" }],
+  ["שתי חבילות קמח 1 קג", { name: "חבילות קמח", quantity: 2, size: 1, unit: "kg" }],
+  ["פסטה ברילה 500g", { name: "פסטה ברילה", size: 500, unit: "g" }],
+  ["Nutella 750 גר", { name: "Nutella", size: 750, unit: "g" }],
+  ["חלב 1,5 ליטר", { name: "חלב", size: 1.5, unit: "l" }],
+
+  // ×/x/* packs: "N x size" is a pack, "N x name" is a quantity
+  ["קוקה קולה 6x1.5 ל'", { name: "קוקה קולה", quantity: 1, pack_qty: 6, size: 1.5, unit: "l" }],
+  ["קוקה קולה 6×1.5 ליטר", { name: "קוקה קולה", pack_qty: 6, size: 1.5, unit: "l" }],
+  ["טונה 4*160 גרם", { name: "טונה", pack_qty: 4, size: 160, unit: "g" }],
+  ["מארז 6 יוגורט", { name: "יוגורט", pack_qty: 6, unit: "unit" }],
+  ["6 במארז מים 1.5L", { name: "מים", quantity: 1, pack_qty: 6, size: 1.5, unit: "l" }],
+  ["זוג סוללות AA", { name: "סוללות AA", pack_qty: 2 }],
+  ["3 יח' יוגורט 150 גרם", { name: "יוגורט", pack_qty: 3, size: 150, unit: "g" }],
+
+  // Quantities: leading / trailing numbers and x-forms, number words
+  ["2 × קוקה קולה 1.5 ליטר", { name: "קוקה קולה", quantity: 2, size: 1.5, unit: "l" }],
+  ["2x חלב 3%", { name: "חלב 3%", quantity: 2, size: null }],
+  ["x2 חלב", { name: "חלב", quantity: 2 }],
+  ["חלב 2x", { name: "חלב", quantity: 2 }],
+  ["חלב 3% x 2", { name: "חלב 3%", quantity: 2 }],
+  ["במבה x4", { name: "במבה", quantity: 4 }],
+  ["שלושה לחמים", { name: "לחמים", quantity: 3 }],
+
+  // Mixed Hebrew / English
+  ["Coca Cola Zero 1.5L", { name: "Coca Cola Zero", size: 1.5, unit: "l" }],
+  ["milk 2 liters", { name: "milk", size: 2, unit: "l" }],
+  ["2 milk 1l", { name: "milk", quantity: 2, size: 1, unit: "l" }],
+  ["pack of 6 eggs", { name: "eggs", pack_qty: 6 }],
+  ["קפה Nescafe Gold 200 גרם", { name: "קפה Nescafe Gold", size: 200, unit: "g" }],
+
+  // Bidi controls are stripped; a trailing "!" forbids substitutes
+  ["חלב ‏1 ליטר", { name: "חלב", size: 1, unit: "l" }],
+  ["קפה עלית 200 גרם!", { name: "קפה עלית", size: 200, unit: "g", exact: true }],
+];
+
+for (const [input, want] of CASES){
+  Deno.test(`parseListLine: ${input}`, ()=> {
+    const got = parseListLine(input) as Record<string, unknown> | null;
+    if (!got) throw new Error(`no item for ${JSON.stringify(input)}`);
+    assertEquals(Object.fromEntries(Object.keys(want).map(k => [k, got[k]])), want);
+  });
+}
+
+Deno.test("parseListLine: defaults and size_text", ()=> {
+  const it = parseListLine("חלב 3% 1 ליטר")!;
+  assertEquals(it.quantity, 1);
+  assertEquals(it.pack_qty, null);
+  assertEquals(it.size_text, "1 l");
+  assertEquals(it.raw, "חלב 3% 1 ליטר");
+  assertEquals("exact" in it, false);
+});
+
+Deno.test("parseListLine: blank lines", ()=> {
+  assertEquals(parseListLine(""), null);
+  assertEquals(parseListLine("   "), null);
+  assertEquals(parseListLine(" - "), null);
+});
+
+Deno.test("parseList: newline, semicolon and comma separators keep decimal commas", ()=> {
+  const items = parseList("חלב 3%, לחם; ביצים\nקוקה קולה 1,5 ליטר\n\n");
+  assertEquals(items.map(i => i.name), ["חלב 3%", "לחם", "ביצים", "קוקה קולה"]);
+  assertEquals(items[3].size, 1.5);
+});
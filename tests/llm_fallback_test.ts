@@ -0,0 +1,39 @@
+import { assert, assertEquals } from "./assert.ts";
+import type { SearchResult } from "../server_deno.ts";
+
+// The mock fixtures without openai.json: the first provider (Responses API) fails and the search
+// falls through to the local chat-completions provider (openai_chat.json). Test files load their
+// own copy of the server, which reads the environment once.
+const dir = await Deno.makeTempDir();
+for (const f of ["geocode.json", "places.json", "pages.json", "openai_chat.json"]) await Deno.copyFile(`./fixtures/mock/${f}`, `${dir}/${f}`);
+await Deno.symlink(`${Deno.cwd()}/fixtures/mock/pages`, `${dir}/pages`);
+Deno.env.set("MOCK_FIXTURES_DIR", dir);
+Deno.env.set("LLM_PROVIDERS", "openai,local");
+Deno.env.set("LOCAL_LLM_MODEL", "mock-local");
+const { apiKey, call } = await import("./helpers.ts");
+// The environment is shared by the test files that run after this one
+for (const k of ["MOCK_FIXTURES_DIR", "LLM_PROVIDERS", "LOCAL_LLM_MODEL"]) Deno.env.delete(k);
+
+type ModelUsage = { provider: string; model: string; requests: number; failures: number; input_tokens: number; output_tokens: number };
+
+Deno.test("LLM fallback: a failing primary falls through to the local provider and both are recorded", async ()=>{
+  const key = await apiKey("fallback test");
+  const r = await call<SearchResult>("POST", "/api/search", { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5, repair_rounds: 0 }, key);
+  assertEquals(r.status, 200);
+  assertEquals(r.json.status, "ok");
+  assert(r.json.results.length > 0);
+
+  const usage = await call<{ daily: { requests: number; failures: number; by_model: ModelUsage[] }[] }>("GET", "/api/usage?days=1", undefined, { authorization: "Bearer test-admin" });
+  assertEquals(usage.status, 200);
+  const [today] = usage.json.daily;
+  const by = Object.fromEntries(today.by_model.map(m => [m.provider, m]));
+  assertEquals([by.openai.requests, by.openai.failures], [0, 1]);
+  assertEquals([by.local.model, by.local.requests, by.local.failures], ["mock-local", 1, 0]);
+  assert(by.local.input_tokens > 0 && by.local.output_tokens > 0);
+  assertEquals([today.requests, today.failures], [1, 1]);
+});
+
+Deno.test("GET /api/usage needs the admin token", async ()=>{
+  assertEquals((await call("GET", "/api/usage")).status, 401);
+  assertEquals((await call("GET", "/api/usage", undefined, { authorization: "Bearer not-admin" })).status, 401);
+});
@@ -0,0 +1,42 @@
+import { assertEquals } from "./assert.ts";
+
+// The mock model reply with Shufersal's milk line misreported: ppu, line_total and the store
+// total_price disagree with the 6.90 shelf price. The server recomputes them from the price and size.
+const dir = await Deno.makeTempDir();
+for (const f of ["geocode.json", "places.json", "pages.json"]) await Deno.copyFile(`./fixtures/mock/${f}`, `${dir}/${f}`);
+await Deno.symlink(`${Deno.cwd()}/fixtures/mock/pages`, `${dir}/pages`);
+const reply = JSON.parse(await Deno.readTextFile("./fixtures/mock/openai.json"));
+const fn = reply.output.find((o:{ type:string })=> o.type === "function_call");
+const args = JSON.parse(fn.arguments);
+const shufersal = args.results.find((s:{ branch_id:string })=> s.branch_id === "mock_shufersal_holon");
+const milk = shufersal.basket.find((l:{ name:string })=> l.name === "חלב 3%");
+Object.assign(milk, { ppu: 9.9, line_total: 13.8 });
+shufersal.total_price = 30;
+fn.arguments = JSON.stringify(args);
+await Deno.writeTextFile(`${dir}/openai.json`, JSON.stringify(reply));
+Deno.env.set("MOCK_FIXTURES_DIR", dir);
+const { apiKey, call } = await import("./helpers.ts");
+// The environment is shared by the test files that run after this one
+Deno.env.delete("MOCK_FIXTURES_DIR");
+
+type Line = { name: string; ppu: number; line_total: number; normalization: { base_unit: string; base_amount: number; model_ppu: number | null; model_line_total: number; flags: string[] } };
+type Store = { store_name: string; total_price: number; basket: Line[]; price_check: Record<string, unknown>; store_verification: { issues: string[] } };
+
+Deno.test("normalization: ppu, line and store totals are recomputed and the model's mismatches flagged", async ()=>{
+  const r = await call("POST", "/api/search", { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 }, await apiKey("normalization test"));
+  assertEquals(r.status, 200);
+  const stores = Object.fromEntries((r.json.results as Store[]).map(s => [s.store_name, s]));
+
+  const s = stores["שופרסל"];
+  const line = s.basket.find(l => l.name === "חלב 3%")!;
+  assertEquals([line.ppu, line.line_total], [6.9, 6.9]);
+  assertEquals(line.normalization, { ...line.normalization, base_unit: "l", base_amount: 1, model_ppu: 9.9, model_line_total: 13.8, flags: ["ppu_mismatch", "line_total_mismatch"] });
+  assertEquals(s.price_check, { model_total: 30, recomputed_total: s.total_price, regular_total: 22.7, total_matches: false, mismatched_lines: 1 });
+  assertEquals(s.total_price, Math.round(s.basket.reduce((t, l)=> t + l.line_total, 0) * 100) / 100);
+  assertEquals(s.store_verification.issues, ["total_price recomputed: model 30 -> 22.7 before promotions", "1 line(s) with ppu/line_total mismatch"]);
+
+  // Rami Levy's reply was consistent
+  const rami = stores["רמי לוי"];
+  assertEquals([rami.price_check.total_matches, rami.price_check.mismatched_lines], [true, 0]);
+  assertEquals(rami.basket.flatMap(l => l.normalization.flags), []);
+});
@@ -0,0 +1,41 @@
+import { assertEquals } from "./assert.ts";
+
+// With the Shufersal feeds in fixtures/feeds: its Holon branch (store 001) has its own price file
+// carrying both products, Rami Levy has none and keeps the online prices its pages show
+Deno.env.set("FEEDS_DIR", "./fixtures/feeds");
+const { apiKey, call } = await import("./helpers.ts");
+// The environment is shared by the test files that run after this one
+Deno.env.delete("FEEDS_DIR");
+
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 };
+const KEY = await apiKey("price scope test");
+
+type Line = { name: string; unit_price: number; online_unit_price?: number | null; price_scope: string; scope_source?: { feed_store_id: string; item_code: string } };
+type Store = { rank: number; store_name: string; total_price: number; store_code: string | null; scope_penalty: number; price_scope: Record<string, unknown>; basket: Line[] };
+
+Deno.test("price scope: web lines are repriced from the branch's own feed and ranked ahead of online prices", async ()=>{
+  const r = await call("POST", "/api/search", { ...SEARCH, use_feeds: false }, KEY);
+  assertEquals([r.status, r.json.source], [200, "web"]);
+  const [shufersal, rami] = r.json.results as Store[];
+
+  assertEquals([shufersal.store_name, shufersal.store_code], ["שופרסל", "1"]);
+  assertEquals(shufersal.price_scope, { branch: 2, region: 0, online: 0, chain: 0, branch_share: 1, reliability: 1, primary: "branch" });
+  for (const l of shufersal.basket){
+    assertEquals([l.price_scope, l.scope_source?.feed_store_id, l.online_unit_price], ["branch", "1", l.unit_price]);
+  }
+  assertEquals(rami.price_scope, { branch: 0, region: 0, online: 2, chain: 0, branch_share: 0, reliability: 0.5, primary: "online" });
+  assertEquals(rami.basket.map(l => [l.price_scope, l.scope_source]), [["online", undefined], ["online", undefined]]);
+
+  // Rami Levy's basket is 0.30 cheaper, but PRICE_SCOPE_PENALTY (3%) × its unconfirmed half puts it second
+  assertEquals([rami.total_price, shufersal.total_price], [20.5, 20.8]);
+  assertEquals([shufersal.scope_penalty, rami.scope_penalty], [0, 0.31]);
+  assertEquals([shufersal.rank, rami.rank], [1, 2]);
+});
+
+Deno.test("price scope: a feed-priced basket is branch-scoped throughout", async ()=>{
+  const r = await call("POST", "/api/search", SEARCH, KEY);
+  assertEquals([r.status, r.json.source], [200, "feed"]);
+  const stores = r.json.results as Store[];
+  assertEquals(stores.map(s => [s.store_name, s.store_code, s.price_scope.primary, s.price_scope.branch_share]), [["שופרסל", "1", "branch", 1]]);
+  assertEquals(stores[0].basket.map(l => l.price_scope), ["branch", "branch"]);
+});
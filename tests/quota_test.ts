@@ -0,0 +1,62 @@
+import { assertEquals } from "./assert.ts";
+import { call, srv } from "./helpers.ts";
+import type { SearchResult } from "../server_deno.ts";
+
+const admin = { authorization: "Bearer test-admin" };
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 };
+
+async function newKey(daily_llm_budget:number){
+  const r = await call<{ key: { id: string }; api_key: string }>("POST", "/api/admin/keys", { name: "quota test", daily_llm_budget, rate_per_min: 600, burst: 50 }, admin);
+  assertEquals(r.status, 201);
+  return { id: r.json.key.id, headers: { "x-api-key": r.json.api_key } };
+}
+
+async function charged(key_id:string){
+  const day = new Date().toISOString().slice(0, 10);
+  return Number((await srv.kv.get<Deno.KvU64>(["client_usage", day, `key:${key_id}`, "llm_calls"])).value?.value ?? 0n);
+}
+
+Deno.test("LLM budget: a search reserves 1 + repair rounds and is charged what it called", async ()=>{
+  const key = await newKey(3);
+  const r = await call<SearchResult>("POST", "/api/search", SEARCH, key.headers);
+  assertEquals(r.status, 200);
+  assertEquals(await charged(key.id), 1 + r.json.repair!.rounds.length);
+});
+
+Deno.test("LLM budget: concurrent searches cannot both pass a check made before either is charged", async ()=>{
+  const key = await newKey(3);
+  const [a, b] = await Promise.all([call("POST", "/api/search", SEARCH, key.headers), call("POST", "/api/search", SEARCH, key.headers)]);
+  assertEquals([a.status, b.status].sort(), [200, 429]);
+  const limited = a.status === 429 ? a : b;
+  assertEquals(limited.json.message, "Daily LLM budget exhausted for this client");
+});
+
+Deno.test("LLM budget: the reservation is returned when no model call is made", async ()=>{
+  const key = await newKey(3);
+  const r = await call("POST", "/api/search", { ...SEARCH, list_text: "" }, key.headers);
+  assertEquals(r.status, 400);
+  assertEquals(await charged(key.id), 0);
+  // ...so the full budget is still there for a real search
+  assertEquals((await call("POST", "/api/search", { ...SEARCH, repair_rounds: 2 }, key.headers)).status, 200);
+});
+
+Deno.test("operator routes need the admin token when DEBUG is off", async ()=>{
+  const r = await call("POST", "/api/evidence/prune", undefined, { authorization: "Bearer not-admin" });
+  assertEquals([r.status, r.json.message], [401, "Invalid admin token"]);
+  const ok = await call("POST", "/api/evidence/prune", undefined, admin);
+  assertEquals([ok.status, ok.json.status], [200, "ok"]);
+});
+
+// Runs last: it spends this file's anonymous burst (RATE_IP_BURST = 10)
+Deno.test("admin routes are rate limited before the admin token is checked", async ()=>{
+  const statuses: number[] = [];
+  while (statuses.length < 20 && statuses.at(-1) !== 429){
+    statuses.push((await call("GET", "/api/admin/keys", undefined, { authorization: "Bearer guess" })).status);
+  }
+  assertEquals(statuses.at(-1), 429);
+  assertEquals(new Set(statuses.slice(0, -1)), new Set([401]));
+  // The right token does not get past an empty bucket either
+  const r = await call("GET", "/api/admin/keys", undefined, admin);
+  assertEquals(r.status, 429);
+  assertEquals(r.json.message, "Rate limit exceeded");
+});
@@ -0,0 +1,20 @@
+import { assertEquals } from "./assert.ts";
+import { srv } from "./helpers.ts";
+
+type Store = Parameters<typeof srv.rankStores>[0][number];
+const store = (name:string, total_price:number, coverage:number, travel_minutes = 5)=> ({ store_name: name, total_price, coverage, travel_minutes }) as Store;
+
+Deno.test("rankStores: cheapest complete basket first", ()=>{
+  const ranked = srv.rankStores([store("b", 30, 1), store("a", 25, 1), store("c", 28, 1)], { rank_by: "price", cost_per_minute: 0 });
+  assertEquals(ranked.map(s => [s.rank, s.store_name]), [[1, "a"], [2, "c"], [3, "b"]]);
+});
+
+Deno.test("rankStores: partial baskets rank after complete ones, however cheap", ()=>{
+  const ranked = srv.rankStores([store("full", 40, 1), store("half", 12, 0.5), store("most", 30, 0.8), store("full2", 41, 1)], { rank_by: "price", cost_per_minute: 0 });
+  assertEquals(ranked.map(s => s.store_name), ["full", "full2", "most", "half"]);
+});
+
+Deno.test("rankStores: price_travel adds the round trip", ()=>{
+  const ranked = srv.rankStores([store("far", 20, 1, 30), store("near", 25, 1, 2)], { rank_by: "price_travel", cost_per_minute: 0.5 });
+  assertEquals(ranked.map(s => [s.store_name, s.combined_total]), [["near", 27], ["far", 50]]);
+});
@@ -0,0 +1,48 @@
+import { assertEquals } from "./assert.ts";
+import type { SearchResult } from "../server_deno.ts";
+
+// The mock fixtures with one bad line in the model's first reply: Rami Levy's milk points at a page
+// that does not exist. The repair round answers from fixtures/mock/openai_repair.json.
+const dir = await Deno.makeTempDir();
+for (const f of ["geocode.json", "places.json", "pages.json", "openai_repair.json"]) await Deno.copyFile(`./fixtures/mock/${f}`, `${dir}/${f}`);
+await Deno.symlink(`${Deno.cwd()}/fixtures/mock/pages`, `${dir}/pages`);
+const reply = JSON.parse(await Deno.readTextFile("./fixtures/mock/openai.json"));
+const fn = reply.output.find((o:{ type:string })=> o.type === "function_call");
+const args = JSON.parse(fn.arguments);
+const rami = args.results.find((s:{ branch_id:string })=> s.branch_id === "mock_ramilevy_holon");
+const milk = rami.basket.find((l:{ name:string })=> l.name === "חלב 3%");
+const MILK_URL = milk.product_url, DEAD_URL = "https://www.rami-levy.co.il/he/online/search?item=7290000000000";
+milk.product_url = DEAD_URL;
+fn.arguments = JSON.stringify(args);
+await Deno.writeTextFile(`${dir}/openai.json`, JSON.stringify(reply));
+Deno.env.set("MOCK_FIXTURES_DIR", dir);
+const { apiKey, call } = await import("./helpers.ts");
+// The environment is shared by the test files that run after this one
+Deno.env.delete("MOCK_FIXTURES_DIR");
+
+type Reply = SearchResult & { debug: { timings: { by_stage: Record<string, { count: number }> } } };
+type Line = { name: string; unit_price: number; product_url: string; repair?: { round: number; reason: string; replaced_url: string | null }; verification: { notes: string } };
+
+Deno.test("repair: a rejected line is replaced from the repair round, verified lines are left alone", async ()=>{
+  const r = await call<Reply>("POST", "/api/search", { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5, include_debug: true }, await apiKey("repair test"));
+  assertEquals(r.status, 200);
+  const repair = r.json.repair!;
+  assertEquals([repair.stopped, repair.unresolved, repair.rounds.length], ["clean", 0, 1]);
+  assertEquals(repair.rounds[0].asked, 1);
+  assertEquals(repair.rounds[0].lines, [{
+    branch_id: "mock_ramilevy_holon", store_name: "רמי לוי", item: "חלב 3%", list_index: 0,
+    reason: "non-200 (404)", replaced_url: DEAD_URL, product_url: MILK_URL
+  }]);
+
+  const baskets = Object.fromEntries((r.json.results as { store_name: string; basket: Line[] }[]).map(s => [s.store_name, s.basket]));
+  const fixed = baskets["רמי לוי"].find(l => l.name === "חלב 3%")!;
+  assertEquals([fixed.product_url, fixed.unit_price, fixed.repair?.round, fixed.verification.notes], [MILK_URL, 6.5, 1, "OK"]);
+  for (const l of [...baskets["רמי לוי"], ...baskets["שופרסל"]].filter(l => l !== fixed)){
+    assertEquals(l.repair, undefined);
+    assertEquals(l.verification.notes, "OK");
+  }
+  // Each page is read once: the four first-reply lines and the replacement. The round and the
+  // final verifyStore pass reuse those proofs.
+  assertEquals(r.json.debug.timings.by_stage.verify_item.count, 5);
+  assertEquals(r.json.debug.timings.by_stage.repair_round.count, 1);
+});
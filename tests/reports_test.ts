@@ -0,0 +1,19 @@
+import { assertEquals } from "./assert.ts";
+import { srv } from "./helpers.ts";
+
+Deno.test("csvCell: formula prefixes are neutralised, plain numbers are not", ()=>{
+  const cases: [unknown, string][] = [
+    [-5, "-5"],
+    ["-12.90", "-12.90"],
+    [7.9, "7.9"],
+    ["=SUM(A1:A9)", "'=SUM(A1:A9)"],
+    ["+972501234567", "'+972501234567"],
+    ["@cmd", "'@cmd"],
+    // Starts like a number but is not one
+    ["-1+HYPERLINK(\"http://x\")", `"'-1+HYPERLINK(""http://x"")"`],
+    ["-2 ליטר", "'-2 ליטר"],
+    ["חלב 3%, 1 ליטר", `"חלב 3%, 1 ליטר"`],
+    [null, ""],
+  ];
+  for (const [v, want] of cases) assertEquals(srv.csvCell(v), want, String(v));
+});
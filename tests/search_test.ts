@@ -0,0 +1,63 @@
+import { assert, assertEquals } from "./assert.ts";
+import { call, srv } from "./helpers.ts";
+import type { SearchResult } from "../server_deno.ts";
+
+// End to end through POST /api/search with the offline providers: mock model reply, Places,
+// geocoder and saved product pages (fixtures/mock)
+const LIST = "חלב 3%\nקוקה קולה 1.5 ליטר";
+
+Deno.test("POST /api/search: verified results ranked by basket price", async ()=>{
+  const { status, json } = await call<SearchResult>("POST", "/api/search", { list_text: LIST, address: "הולון", radius_km: 5 });
+  assertEquals(status, 200);
+  assertEquals([json.status, json.source, json.rank_by], ["ok", "web", "price"]);
+  // Every line verifies on the first reply, so no repair round runs
+  assertEquals([json.repair?.stopped, json.repair?.rounds], ["clean", []]);
+
+  const results = json.results;
+  assertEquals(results.map(r => [r.rank, r.store_name, r.total_price]), [[1, "רמי לוי", 20.5], [2, "שופרסל", 20.8]]);
+  for (const r of results){
+    // Every line re-read from its product page by the chain's adapter, at the quoted price
+    assertEquals(r.store_verification, { approved_branch: true, verified_items: 2, total_items: 2, coverage_ratio: 1, store_verified: true, issues: [] });
+    assertEquals(r.coverage, 1);
+    assertEquals(r.basket.length, 2);
+    for (const b of r.basket){
+      assertEquals(b.verification?.notes, "OK");
+      assertEquals(b.verification?.price_extracted, b.unit_price);
+      assertEquals(b.verification?.adapter, ({ "רמי לוי": "rami-levy", "שופרסל": "shufersal" } as Record<string, string>)[r.store_name]);
+      assert(b.evidence_id, `no evidence for ${b.product_url}`);
+    }
+    assertEquals(r.total_price, Math.round(r.basket.reduce((t, b)=> t + (b.line_total ?? 0), 0) * 100) / 100);
+  }
+  assert(json.share?.id);
+});
+
+Deno.test("POST /api/search: rank_by=price_travel counts the round trip", async ()=>{
+  const { status, json } = await call<SearchResult>("POST", "/api/search", { list_text: LIST, address: "הולון", radius_km: 5, rank_by: "price_travel", cost_per_minute: 1 });
+  assertEquals(status, 200);
+  const results = json.results;
+  // Shufersal is dearer but closer: 20.8 + 2 × 5 min < 20.5 + 2 × 7 min
+  assertEquals(results.map(r => [r.rank, r.store_name, r.travel_minutes, r.combined_total]), [[1, "שופרסל", 5, 30.8], [2, "רמי לוי", 7, 34.5]]);
+});
+
+Deno.test("POST /api/search: an empty list needs input", async ()=>{
+  const { status, json } = await call("POST", "/api/search", { list_text: "", address: "הולון" });
+  assertEquals(status, 400);
+  assertEquals(json.status, "need_input");
+});
+
+Deno.test("POST /api/search: per-stage timings and coverage come without debug", async ()=>{
+  const { status, json } = await call<SearchResult>("POST", "/api/search", { list_text: LIST, address: "הולון", radius_km: 5 });
+  assertEquals(status, 200);
+  assertEquals(json.debug, undefined);
+  const timings = json.timings!;
+  const stages = timings.by_stage;
+  for (const s of ["geocode", "places", "llm", "verify_item", "ranking"]) assert(stages[s]?.count >= 1, `no ${s} timing`);
+  assertEquals(stages.verify_item.count, 4);
+  assert(timings.total_ms >= 0);
+  assert(!("spans" in timings));
+  assertEquals(json.coverage, { stores: 2, store_verified: 2, mean_ratio: 1, min_ratio: 1 });
+
+  const metrics = await (await srv.app.request("/metrics")).text();
+  assert(metrics.includes('cartcompare_stage_duration_seconds_count{stage="verify_item"}'));
+  assert(/cartcompare_store_coverage_ratio_count\{chain="shufersal"\} [1-9]/.test(metrics));
+});
@@ -0,0 +1,47 @@
+import { assert, assertEquals } from "./assert.ts";
+import { call, srv } from "./helpers.ts";
+
+const bytes = (v:unknown)=> new TextEncoder().encode(JSON.stringify(v)).length;
+
+type Store = Parameters<typeof srv.snapshotResults>[0][number];
+
+// `stores` results of `lines` Hebrew-named basket lines each
+function results(stores:number, lines:number){
+  return Array.from({ length: stores }, (_, i)=> ({
+    rank: i + 1, store_name: "שופרסל", branch_id: `b${i}`, branch_name: "שופרסל דיל חולון סוקולוב", total_price: 100 + i, coverage: 1,
+    store_verification: { store_verified: true },
+    basket: Array.from({ length: lines }, (_, j)=> ({ name: `חלב תנובה טרי בקרטון מהדרין שלושה אחוז שומן ${j}`, quantity: 1, unit_price: 6.9, line_total: 6.9, product_url: `https://s.co/${j}` }))
+  }) as Store);
+}
+
+Deno.test("snapshotResults: small results are kept whole", ()=>{
+  const snap = srv.snapshotResults(results(3, 5));
+  assertEquals(snap.length, 3);
+  assertEquals(snap[0].basket?.length, 5);
+});
+
+Deno.test("snapshotResults: the limit is in UTF-8 bytes, not UTF-16 units", ()=>{
+  const r = results(10, 38);
+  const asStored = r.map(({ store_verification: _v, ...x })=> ({ ...x, store_verified: true }));
+  // 55k characters would fit; 55k bytes do not
+  assert(JSON.stringify(asStored).length < 55_000 && bytes(asStored) > 55_000);
+  const snap = srv.snapshotResults(r);
+  assert(bytes(snap) <= 55_000);
+  assertEquals(snap.length, 10);
+  assertEquals(snap.some(s => "basket" in s), false);
+});
+
+Deno.test("snapshotResults: still too big without baskets -> lowest-ranked stores are dropped", ()=>{
+  const many = results(400, 0).map(r => ({ ...r, branch_name: "סניף ".repeat(30) }));
+  const snap = srv.snapshotResults(many);
+  assert(bytes(snap) <= 55_000);
+  assert(snap.length < 400);
+  assertEquals(snap.map(s => s.rank), Array.from({ length: snap.length }, (_, i)=> i + 1));
+});
+
+Deno.test("apiError: HttpError status, message and details", async ()=>{
+  const r = await call("GET", "/api/lists/nope", undefined, { authorization: "Bearer nope" });
+  assertEquals(r.status, 401);
+  assertEquals([r.json.status, r.json.message], ["error", "Invalid API token"]);
+  assert(r.json.requestId);
+});
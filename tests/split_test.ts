@@ -0,0 +1,51 @@
+import { assertEquals } from "./assert.ts";
+import { call, srv } from "./helpers.ts";
+import type { SearchResult } from "../server_deno.ts";
+
+type Store = Parameters<typeof srv.planSplitBasket>[0][number];
+type Approved = Parameters<typeof srv.planSplitBasket>[3];
+
+const center = { lat: 32.0158, lng: 34.7874 };
+const lines = srv.parseList("חלב\nלחם\nביצים");
+const opt = { max_stores: 1, cost_per_km: 0, extra_store_cost: 0, fulfillment: "in_store" as const };
+const ok = { notes: "OK" };
+
+// A verified store pricing `prices` (list_index -> line total)
+function store(branch_id:string, prices:Record<number, number>){
+  return {
+    branch_id, store_name: "שופרסל", branch_name: branch_id,
+    basket: Object.entries(prices).map(([i, cost])=> ({ name: lines[Number(i)].name, list_index: Number(i), line_total: cost, verification: ok }))
+  } as Store;
+}
+const approved = (ids:string[])=> new Map(ids.map(id => [id, { branch_id: id, lat: center.lat, lng: center.lng }])) as Approved;
+
+Deno.test("planSplitBasket: no store covers the list -> best partial plan with its missing items", ()=>{
+  const stores = [store("a", { 0: 6, 1: 8 }), store("b", { 1: 5, 2: 12 }), store("c", { 2: 3 })];
+  const plan = srv.planSplitBasket(stores, lines, center, approved(["a", "b", "c"]), opt)!;
+  // Two items beat one; of the two-item stores the cheaper (a: 14, b: 17) wins
+  assertEquals([plan.items_covered, plan.items_wanted], [2, 3]);
+  assertEquals(plan.stores.map(s => s.branch_id), ["a"]);
+  assertEquals(plan.missing_items, ["ביצים"]);
+  assertEquals(plan.best_single?.missing_items, ["ביצים"]);
+  assertEquals(plan.savings, 0);
+});
+
+Deno.test("planSplitBasket: savings against the best single store, even a partial one", ()=>{
+  const stores = [store("a", { 0: 6, 1: 8 }), store("b", { 1: 5, 2: 12 }), store("c", { 2: 3 })];
+  const plan = srv.planSplitBasket(stores, lines, center, approved(["a", "b", "c"]), { ...opt, max_stores: 2 })!;
+  assertEquals(plan.missing_items, []);
+  assertEquals(plan.stores.map(s => s.branch_id).sort(), ["a", "c"]);
+  assertEquals(plan.total_cost, 17);
+  assertEquals(plan.best_single?.branch_id, "a");
+  assertEquals(plan.best_single?.items_covered, 2);
+  // The split costs more here: it also buys the item a does not stock
+  assertEquals(plan.savings, 14 - 17);
+});
+
+Deno.test("POST /api/search mode=split: items no store prices are listed as missing", async ()=>{
+  const { status, json } = await call<SearchResult>("POST", "/api/search", { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר\nבמבה", address: "הולון", radius_km: 5, mode: "split" });
+  assertEquals(status, 200);
+  const plan = json.split_plan!;
+  assertEquals([plan.items_covered, plan.items_wanted, plan.missing_items], [2, 3, ["במבה"]]);
+  assertEquals(plan.best_single?.missing_items, ["במבה"]);
+});
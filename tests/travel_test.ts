@@ -0,0 +1,54 @@
+import { assertEquals } from "./assert.ts";
+
+// A local OSRM-style /table stub as the routing backend. Rami Levy is 3 minutes away by road and
+// Shufersal, though closer in a straight line, 25: the offline estimate ranks them the other way
+// round (see search_test.ts). Transit requests fail, so they fall back to the estimate.
+const MINUTES: Record<string, number> = { "34.772,32.0105": 3, "34.781,32.018": 25 };
+const modes: string[] = [];
+const server = Deno.serve({ hostname: "127.0.0.1", port: 0, onListen(){} }, (req)=>{
+  const m = new URL(req.url).pathname.match(/^\/table\/v1\/(\w+)\/(.+)$/);
+  if (!m) return new Response("not found", { status: 404 });
+  modes.push(m[1]);
+  if (m[1] === "transit") return Response.json({ code: "NoTable" }, { status: 400 });
+  const dests = m[2].split(";").slice(1);
+  return Response.json({ code: "Ok", durations: [[0, ...dests.map(d => (MINUTES[d] ?? 60) * 60)]], distances: [[0, ...dests.map(()=> 2500)]] });
+});
+Deno.env.set("ROUTING_BASE_URL", `http://127.0.0.1:${server.addr.port}`);
+const { apiKey, call } = await import("./helpers.ts");
+// The environment is shared by the test files that run after this one
+Deno.env.delete("ROUTING_BASE_URL");
+
+const SEARCH = { list_text: "חלב 3%\nקוקה קולה 1.5 ליטר", address: "הולון", radius_km: 5 };
+const KEY = await apiKey("travel test");
+
+type Store = { rank: number; store_name: string; travel_mode: string; travel_minutes: number; travel_km: number; combined_total: number };
+
+async function search(extra:Record<string, unknown>){
+  const r = await call("POST", "/api/search", { ...SEARCH, ...extra }, KEY);
+  assertEquals(r.status, 200);
+  return r.json.results as Store[];
+}
+
+Deno.test("travel: the routing backend's times drive price_travel ranking", async ()=>{
+  const results = await search({ rank_by: "price_travel", cost_per_minute: 1 });
+  assertEquals(results.map(s => [s.rank, s.store_name, s.travel_mode, s.travel_minutes, s.travel_km, s.combined_total]), [
+    [1, "רמי לוי", "driving", 3, 2.5, 26.5],
+    [2, "שופרסל", "driving", 25, 2.5, 70.8]
+  ]);
+  assertEquals(modes.at(-1), "driving");
+});
+
+Deno.test("travel: the mode is passed to the backend, and its failure falls back to the estimate", async ()=>{
+  const walking = await search({ travel_mode: "walking", rank_by: "price_travel", cost_per_minute: 1 });
+  assertEquals(modes.at(-1), "walking");
+  assertEquals(walking.map(s => [s.store_name, s.travel_mode, s.travel_minutes]), [["רמי לוי", "walking", 3], ["שופרסל", "walking", 25]]);
+
+  // Estimate: straight line × TRAVEL_ROAD_FACTOR (1.3) at 16 km/h plus 8 minutes' wait
+  const transit = await search({ travel_mode: "transit", rank_by: "price_travel", cost_per_minute: 1 });
+  assertEquals(modes.at(-1), "transit");
+  assertEquals(transit.map(s => [s.store_name, s.travel_mode, s.travel_minutes]), [["שופרסל", "transit", 9], ["רמי לוי", "transit", 13]]);
+  // Price ranking is unaffected by the mode
+  assertEquals((await search({ travel_mode: "transit" })).map(s => s.store_name), ["רמי לוי", "שופרסל"]);
+});
+
+Deno.test("travel: stop the routing stub", ()=> server.shutdown());